@@ -1,21 +1,79 @@
 import path from "path";
 import Database from "better-sqlite3";
 import fs from "fs/promises";
-import { Migrator } from "./lib/migrate.js";
+import {
+  MigrationError,
+  Migrator,
+  type DryRunResult,
+  type MigrationStatus,
+  type MigratorOptions,
+} from "./lib/migrate.js";
+import { Seeder } from "./lib/seed.js";
+import { StatementError } from "./lib/sql.js";
+import {
+  findConfig,
+  readConfig,
+  resolveEnvironment,
+  type EnvironmentConfig,
+} from "./lib/config.js";
 import arg from "arg";
 import pc from "picocolors";
 
-const MIGRATIONS_DIR =
-  process.env.MIGRATIONS_DIR || path.join(process.cwd(), "db", "migrations");
+type Settings = {
+  /** `main`, or the database's key in the config's `databases` */
+  name: string;
+  database: string;
+  migrations: string;
+  seeds: string;
+  types?: string;
+  table?: string;
+  pragmas: NonNullable<EnvironmentConfig["pragmas"]>;
+  outOfOrder?: MigratorOptions["outOfOrder"];
+  lint?: EnvironmentConfig["lint"];
+};
+
+type DatabaseResult = { ok: boolean; summary: string };
+
+// resolved from flags, environment variables and the config file in main()
+let targets: Settings[];
+// the database commands that don't run across every database use
+let settings: Settings;
 
-const DB_PATH =
-  process.env.DB_PATH || path.join(process.cwd(), "db", "database.db");
+const stateColors: Record<MigrationStatus["state"], (s: string) => string> = {
+  applied: pc.green,
+  pending: pc.yellow,
+  "pending-out-of-order": pc.magenta,
+  missing: pc.red,
+  "applied-out-of-order": pc.magenta,
+};
 
 const args = arg({
   "--help": Boolean,
   "--dry": Boolean,
   "--name": String,
   "--steps": Number,
+  "--to": String,
+  "--until": String,
+  "--verify": Boolean,
+  "--record": Boolean,
+  "--js": Boolean,
+  "--from-schema": String,
+  "--dump-schema": Boolean,
+  "--json": Boolean,
+  "--backup": Boolean,
+  "--reset": Boolean,
+  "--watch": Boolean,
+  "--out": String,
+  "--lock-timeout": Number,
+  "--config": String,
+  "--env": String,
+  "--db": String,
+  "--dir": String,
+  "--table": String,
+  "--only": String,
+  "--out-of-order": String,
+  "-c": "--config",
+  "-e": "--env",
   "-h": "--help",
   "-n": "--name",
   "-d": "--dry",
@@ -29,19 +87,34 @@ const commands = {
       process.exit(1);
     }
 
-    await fs.mkdir(path.dirname(DB_PATH), { recursive: true });
-    const db = new Database(DB_PATH);
+    await fs.mkdir(path.dirname(settings.database), { recursive: true });
+    const db = openDatabase();
 
-    const migrator = new Migrator(db, MIGRATIONS_DIR, { dry: !!args["--dry"] });
+    const migrator = createMigrator(db);
     const upSql = `-- Up migration for ${name}`;
     const downSql = `-- Down migration for ${name}`;
 
     try {
-      const result = await migrator.create(name, upSql, downSql);
+      if (args["--js"]) {
+        const result = await migrator.createModule(name, moduleTemplate(name));
+        console.log(pc.green("✓ Migration created"));
+        console.log(
+          pc.dim("Location:"),
+          pc.white(path.join(settings.migrations, result.name)),
+        );
+        console.log(pc.dim("Files:"));
+        console.log(pc.dim("  └─"), pc.white(result.file));
+        return;
+      }
+
+      const schemaFile = args["--from-schema"];
+      const result = schemaFile
+        ? await migrator.generate(name, await fs.readFile(schemaFile, "utf-8"))
+        : await migrator.create(name, upSql, downSql);
       console.log(pc.green("✓ Migration created"));
       console.log(
         pc.dim("Location:"),
-        pc.white(path.join(MIGRATIONS_DIR, result.name)),
+        pc.white(path.join(settings.migrations, result.name)),
       );
       console.log(pc.dim("Files:"));
       console.log(pc.dim("  ├─"), pc.white(result.up));
@@ -55,81 +128,790 @@ const commands = {
   },
 
   up: async (to?: string) => {
-    const db = new Database(DB_PATH);
-    const migrator = new Migrator(db, MIGRATIONS_DIR, { dry: !!args["--dry"] });
+    if (to && targets.length > 1) {
+      console.log(
+        pc.red("Error: Pass --only <database> to migrate up to a migration"),
+      );
+      process.exit(1);
+    }
+
+    await forEachDatabase(async target => {
+      const db = openDatabase(target);
+      const migrator = createMigrator(
+        db,
+        {
+          verify: !!args["--verify"],
+          dumpSchema: !!args["--dump-schema"],
+          backup: !!args["--backup"],
+          lock: true,
+          lockTimeout: args["--lock-timeout"],
+        },
+        target,
+      );
+
+      try {
+        if (args["--dry"]) {
+          const results = await migrator.dryRun("up", to);
+          printDryRun(results);
+          return {
+            ok: results.every(r => r.ok),
+            summary: `${plural(results.length)} checked`,
+          };
+        }
+
+        printProgress(migrator);
+        const migrations = await migrator.up(to);
+        if (!migrations || migrations.length === 0) {
+          console.log(pc.yellow("ℹ No pending migrations to apply"));
+          return { ok: true, summary: "up to date" };
+        }
+        return { ok: true, summary: `${plural(migrations.length)} applied` };
+      } catch (error) {
+        if (!(error instanceof MigrationError)) {
+          console.log(pc.red(`Error applying migrations, error below`));
+          throw error;
+        }
+        printMigrationError(error);
+        process.exitCode = 1;
+        return { ok: false, summary: `failed at ${error.migration}` };
+      } finally {
+        db.close();
+      }
+    });
+  },
+
+  rollback: async (steps?: number, to?: string) => {
+    if (to && targets.length > 1) {
+      console.log(
+        pc.red("Error: Pass --only <database> to roll back to a migration"),
+      );
+      process.exit(1);
+    }
+    const rollbackTarget = to ? { to } : steps || 1;
+
+    await forEachDatabase(async target => {
+      const db = openDatabase(target);
+      const migrator = createMigrator(
+        db,
+        {
+          dumpSchema: !!args["--dump-schema"],
+          lock: true,
+          lockTimeout: args["--lock-timeout"],
+        },
+        target,
+      );
+
+      try {
+        if (args["--dry"]) {
+          const results = await migrator.dryRun("down", rollbackTarget);
+          printDryRun(results);
+          return {
+            ok: results.every(r => r.ok),
+            summary: `${plural(results.length)} checked`,
+          };
+        }
+
+        printProgress(migrator);
+        const migrations = await migrator.rollback(rollbackTarget);
+        if (!migrations || migrations.length === 0) {
+          console.log(pc.yellow("ℹ No migrations to roll back"));
+          return { ok: true, summary: "nothing to roll back" };
+        }
+        return {
+          ok: true,
+          summary: `${plural(migrations.length)} rolled back`,
+        };
+      } catch (error) {
+        if (!(error instanceof MigrationError)) {
+          console.log(pc.red(`Error rolling back migrations, error below`));
+          throw error;
+        }
+        printMigrationError(error);
+        process.exitCode = 1;
+        return { ok: false, summary: `failed at ${error.migration}` };
+      } finally {
+        db.close();
+      }
+    });
+  },
+
+  down: async (id?: string) => {
+    if (!id) {
+      console.log(pc.red("Error: Migration id is required"));
+      process.exit(1);
+    }
+
+    const db = openDatabase();
+    const migrator = createMigrator(db, {
+      dumpSchema: !!args["--dump-schema"],
+      lock: true,
+      lockTimeout: args["--lock-timeout"],
+    });
 
     try {
-      const migrations = await migrator.up(to);
-      if (!migrations || migrations.length === 0) {
-        console.log(pc.yellow("ℹ No pending migrations to apply"));
-        return;
+      const status = await migrator.status();
+      const migration = status.find(
+        s =>
+          s.migration.startsWith(id) &&
+          (s.state === "applied" || s.state === "applied-out-of-order"),
+      );
+      const later = migration
+        ? status.filter(s => s.id > migration.id && s.applied_at)
+        : [];
+      if (later.length > 0) {
+        console.log(
+          pc.yellow(
+            `⚠ Rolling back out of order, ${plural(later.length)} applied after it will stay applied:`,
+          ),
+        );
+        later.forEach((s, i) => {
+          const isLast = i === later.length - 1;
+          console.log(pc.dim(isLast ? "  └─" : "  ├─"), pc.white(s.migration));
+        });
+        console.log();
+      }
+
+      printProgress(migrator);
+      await migrator.down(id);
+      if (args["--dry"]) {
+        console.log(pc.green(`✓ ${migration?.migration} rolls back cleanly`));
+        console.log(pc.dim("Rolled back, no changes were written"));
+      }
+    } catch (error) {
+      if (!(error instanceof MigrationError)) {
+        console.log(pc.red(`Error rolling back migration, error below`));
+        throw error;
       }
+      printMigrationError(error);
+      process.exitCode = 1;
+    } finally {
+      db.close();
+    }
+  },
 
+  redo: async () => {
+    const db = openDatabase();
+    const migrator = createMigrator(db, {
+      dumpSchema: !!args["--dump-schema"],
+      lock: true,
+      lockTimeout: args["--lock-timeout"],
+    });
+
+    try {
+      printProgress(migrator);
+
+      const migrations = await migrator.redo();
+      if (migrations.length === 0) {
+        console.log(pc.yellow("ℹ No migrations to redo"));
+      } else if (args["--dry"]) {
+        console.log(pc.green(`✓ ${migrations[0]} rolls back and reapplies`));
+        console.log(pc.dim("Rolled back, no changes were written"));
+      }
+    } catch (error) {
+      if (!(error instanceof MigrationError)) {
+        console.log(pc.red(`Error redoing migration, error below`));
+        throw error;
+      }
+      printMigrationError(error);
+      process.exitCode = 1;
+    } finally {
+      db.close();
+    }
+  },
+
+  rebase: async (id?: string) => {
+    if (!id) {
+      console.log(pc.red("Error: Migration id is required"));
+      process.exit(1);
+    }
+
+    const db = openDatabase();
+    const migrator = createMigrator(db);
+
+    try {
+      const { from, to } = await migrator.rebase(id);
+      console.log(pc.green("✓ Migration rebased"));
+      console.log(pc.dim("  ├─"), pc.white(from));
+      console.log(pc.dim("  └─"), pc.white(to));
+    } catch (error) {
+      console.log(pc.red(`Error rebasing migration, error below`));
+      throw error;
+    } finally {
+      db.close();
+    }
+  },
+
+  squash: async (until?: string) => {
+    if (!until) {
+      console.log(
+        pc.red("Error: Pass --until <id> for the last migration to squash"),
+      );
+      process.exit(1);
+    }
+
+    const db = openDatabase();
+    const migrator = createMigrator(db);
+
+    try {
+      const result = await migrator.squash(until);
       console.log(
         pc.green(
-          `✓ Applied ${migrations.length} migration${migrations.length > 1 ? "s" : ""}`,
+          `✓ Squashed ${plural(result.squashed.length)} into ${result.name}`,
         ),
       );
-      console.log(pc.dim("Applied files:"));
-      for (let [i, file] of migrations.entries()) {
-        const isLast = i === migrations.length - 1;
-        console.log(pc.dim(isLast ? "  └─" : "  ├─"), pc.white(file));
-      }
+      console.log(pc.dim("Archived to:"), pc.white(result.archive));
+      console.log(
+        pc.dim(
+          "Databases that applied all of them switch to the baseline the next time they're migrated",
+        ),
+      );
+    } catch (error) {
+      console.log(pc.red(`Error squashing migrations, error below`));
+      throw error;
     } finally {
       db.close();
     }
   },
 
-  rollback: async (steps?: number) => {
-    const db = new Database(DB_PATH);
-    const migrator = new Migrator(db, MIGRATIONS_DIR, { dry: !!args["--dry"] });
+  status: async () => {
+    if (args["--json"] && targets.length > 1) {
+      const all: Record<string, MigrationStatus[]> = {};
+      for (const target of targets) {
+        const db = openDatabase(target);
+        try {
+          all[target.name] = await createMigrator(db, {}, target).status();
+        } finally {
+          db.close();
+        }
+      }
+      console.log(JSON.stringify(all, null, 2));
+      return;
+    }
+
+    await forEachDatabase(async target => {
+      const db = openDatabase(target);
+      const migrator = createMigrator(db, {}, target);
+
+      try {
+        const status = await migrator.status();
+
+        if (args["--json"]) {
+          console.log(JSON.stringify(status, null, 2));
+          return { ok: true, summary: "" };
+        }
+
+        const count = (state: MigrationStatus["state"]) =>
+          status.filter(s => s.state === state).length;
+        const applied = count("applied") + count("applied-out-of-order");
+        const pending = count("pending") + count("pending-out-of-order");
+        const older = count("pending-out-of-order");
+        const missing = count("missing");
+
+        console.log(pc.dim("Database migration status:"));
+        console.log();
+        if (status.length === 0) {
+          console.log(pc.dim("  No migrations"));
+        }
+        const width = Math.max(...status.map(s => s.state.length));
+        for (const s of status) {
+          console.log(
+            " ",
+            stateColors[s.state](s.state.padEnd(width)),
+            pc.dim((s.applied_at ?? "-").padEnd(24)),
+            pc.white(s.migration),
+          );
+        }
+        console.log();
+        console.log(
+          pc.green(`✓ ${applied} applied migration${applied !== 1 ? "s" : ""}`),
+        );
+        console.log(
+          pc.yellow(
+            `ℹ ${pending} pending migration${pending !== 1 ? "s" : ""}`,
+          ),
+        );
+        if (older > 0) {
+          console.log(
+            pc.magenta(
+              `⚠ ${older} pending migration${older !== 1 ? "s are" : " is"} older than the latest applied one, see \`migralite rebase <id>\``,
+            ),
+          );
+        }
+        if (missing > 0) {
+          console.log(
+            pc.red(
+              `✗ ${missing} applied migration${missing !== 1 ? "s" : ""} missing on disk`,
+            ),
+          );
+        }
+
+        return {
+          ok: true,
+          summary: [
+            `${applied} applied`,
+            `${pending} pending`,
+            missing > 0 && `${missing} missing`,
+          ]
+            .filter(Boolean)
+            .join(", "),
+        };
+      } catch (error) {
+        console.log(pc.red(`Error checking migration status, error below`));
+        throw error;
+      } finally {
+        db.close();
+      }
+    });
+  },
+
+  verify: async () => {
+    const db = openDatabase();
+    const migrator = createMigrator(db);
 
     try {
-      const migrations = await migrator.rollback(steps || 1);
-      if (!migrations || migrations.length === 0) {
-        console.log(pc.yellow("ℹ No migrations to roll back"));
+      if (args["--record"]) {
+        const recorded = await migrator.recordChecksums();
+        if (recorded.length === 0) {
+          console.log(pc.yellow("ℹ Every applied migration has checksums"));
+          return;
+        }
+        console.log(
+          pc.green(`✓ Recorded checksums for ${plural(recorded.length)}`),
+        );
+        recorded.forEach((migration, i) => {
+          const isLast = i === recorded.length - 1;
+          console.log(pc.dim(isLast ? "  └─" : "  ├─"), pc.white(migration));
+        });
+        return;
+      }
+
+      const drift = await migrator.verify();
+      if (drift.length === 0) {
+        console.log(pc.green("✓ Applied migrations match their files"));
         return;
       }
 
       console.log(
-        pc.green(
-          `✓ Rolled back ${migrations.length} migration${migrations.length > 1 ? "s" : ""}`,
+        pc.red(
+          `✗ ${drift.length} migration${drift.length > 1 ? "s have" : " has"} drifted`,
         ),
       );
-      console.log(pc.dim("Rolled back files:"));
-      migrations.forEach((file, i) => {
-        const isLast = i === migrations.length - 1;
-        console.log(pc.dim(isLast ? "  └─" : "  ├─"), pc.white(file));
+      drift.forEach((d, i) => {
+        const isLast = i === drift.length - 1;
+        console.log(
+          pc.dim(isLast ? "  └─" : "  ├─"),
+          pc.white(d.migration),
+          pc.yellow(d.kind),
+        );
       });
+      process.exitCode = 1;
+    } catch (error) {
+      console.log(pc.red(`Error verifying migrations, error below`));
+      throw error;
     } finally {
       db.close();
     }
   },
 
-  status: async () => {
-    const db = new Database(DB_PATH);
-    const migrator = new Migrator(db, MIGRATIONS_DIR, { dry: !!args["--dry"] });
+  lint: async () => {
+    // linting reads migration files only, it doesn't need the database
+    const db = new Database(":memory:");
+    const migrator = createMigrator(db);
 
     try {
-      const applied = await migrator.getAppliedMigrations();
-      const pending = await migrator.getPendingMigrations();
+      const issues = await migrator.lint(settings.lint);
+      const errors = issues.filter(issue => issue.severity === "error");
+      if (errors.length > 0) process.exitCode = 1;
+
+      if (args["--json"]) {
+        console.log(JSON.stringify(issues, null, 2));
+        return;
+      }
+      if (issues.length === 0) {
+        console.log(pc.green("✓ No lint issues"));
+        return;
+      }
 
-      console.log(pc.dim("Database migration status:"));
+      for (const issue of issues) {
+        const isError = issue.severity === "error";
+        const location = `${issue.file}${issue.line ? `:${issue.line}` : ""}`;
+        console.log(
+          isError ? pc.red("✗") : pc.yellow("⚠"),
+          pc.white(location),
+          pc.dim(issue.rule),
+        );
+        console.log(pc.dim("  └─"), issue.message);
+      }
+      const warnings = issues.length - errors.length;
+      console.log();
       console.log(
-        pc.green(
-          `✓ ${applied.length} applied migration${applied.length !== 1 ? "s" : ""}`,
+        (errors.length > 0 ? pc.red : pc.yellow)(
+          `${errors.length} error${errors.length !== 1 ? "s" : ""}, ${warnings} warning${warnings !== 1 ? "s" : ""}`,
         ),
       );
+    } catch (error) {
+      console.log(pc.red(`Error linting migrations, error below`));
+      throw error;
+    } finally {
+      db.close();
+    }
+  },
+
+  test: async () => {
+    const db = openDatabase();
+    const migrator = createMigrator(db);
+
+    try {
+      const results = await migrator.testRoundTrip();
+      if (results.length === 0) {
+        console.log(pc.yellow("ℹ No pending migrations to test"));
+        return;
+      }
+
+      for (const result of results) {
+        if (result.ok) {
+          console.log(pc.green("✓"), pc.white(result.migration));
+          continue;
+        }
+
+        console.log(pc.red("✗"), pc.white(result.migration));
+        if (result.error) {
+          console.log(pc.dim("  └─"), pc.red(result.error.message));
+        } else if (result.diff) {
+          const lines = [
+            ...result.diff.added.map(o => `left behind ${o.type} ${o.name}`),
+            ...result.diff.removed.map(
+              o => `did not restore ${o.type} ${o.name}`,
+            ),
+            ...result.diff.changed.map(
+              c => `changed ${c.after.type} ${c.after.name}`,
+            ),
+          ];
+          lines.forEach((line, i) => {
+            const isLast = i === lines.length - 1;
+            console.log(pc.dim(isLast ? "  └─" : "  ├─"), pc.yellow(line));
+          });
+        }
+      }
+
+      const failed = results.filter(r => !r.ok).length;
+      if (failed > 0) {
+        console.log();
+        console.log(
+          pc.red(
+            `✗ ${failed} migration${failed > 1 ? "s" : ""} failed the round trip`,
+          ),
+        );
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.log(pc.red(`Error testing migrations, error below`));
+      throw error;
+    } finally {
+      db.close();
+    }
+  },
+
+  backup: async (action?: string) => {
+    const db = openDatabase();
+    const migrator = createMigrator(db);
+
+    try {
+      if (action === "list") {
+        const backups = await migrator.listBackups();
+        if (backups.length === 0) {
+          console.log(pc.yellow("ℹ No backups"));
+          return;
+        }
+
+        console.log(pc.dim(`Backups in ${migrator.backupDir}:`));
+        backups.forEach((backup, i) => {
+          const isLast = i === backups.length - 1;
+          console.log(
+            pc.dim(isLast ? "  └─" : "  ├─"),
+            pc.white(backup.id),
+            pc.dim(`${Math.ceil(backup.size / 1024)} KB`),
+          );
+        });
+        return;
+      }
+
+      const backup = await migrator.backup();
+      console.log(pc.green("✓ Database backed up"));
+      console.log(pc.dim("  └─"), pc.white(backup.file));
+    } catch (error) {
+      console.log(pc.red(`Error backing up database, error below`));
+      throw error;
+    } finally {
+      db.close();
+    }
+  },
+
+  restore: async (id?: string) => {
+    if (!id) {
+      console.log(pc.red("Error: Backup id is required"));
+      process.exit(1);
+    }
+
+    const db = openDatabase();
+    const migrator = createMigrator(db);
+
+    try {
+      const backup = await migrator.restore(id);
+      console.log(pc.green(`✓ Restored backup ${backup.id}`));
+      console.log(pc.dim("  └─"), pc.white(backup.file));
+    } catch (error) {
+      console.log(pc.red(`Error restoring backup, error below`));
+      throw error;
+    } finally {
+      db.close();
+    }
+  },
+
+  unlock: async () => {
+    const db = openDatabase();
+    const migrator = createMigrator(db);
+
+    try {
+      const lock = migrator.getLock();
+      if (!lock) {
+        console.log(pc.yellow("ℹ Migrations are not locked"));
+        return;
+      }
+
+      if (!args["--dry"]) {
+        migrator.unlock();
+      }
+      console.log(pc.green("✓ Removed migration lock"));
       console.log(
-        pc.yellow(
-          `ℹ ${pending.length} pending migration${pending.length !== 1 ? "s" : ""}`,
-        ),
+        pc.dim("  └─"),
+        pc.white(`${lock.owner} (pid ${lock.pid})`),
+        pc.dim(`since ${lock.acquired_at}`),
       );
-      console.log();
-      console.log(pc.dim("Latest applied migration:"));
-      console.log(pc.dim("  └─"), pc.white(applied[applied.length - 1].name));
     } catch (error) {
-      console.log(pc.red(`Error checking migration status, error below`));
+      console.log(pc.red(`Error removing migration lock, error below`));
+      throw error;
+    } finally {
+      db.close();
+    }
+  },
+
+  dev: async () => {
+    await fs.mkdir(path.dirname(settings.database), { recursive: true });
+    const db = openDatabase();
+    const migrator = createMigrator(db, {
+      dumpSchema: !!args["--dump-schema"],
+      lock: true,
+      lockTimeout: args["--lock-timeout"],
+    });
+
+    const reapply = async () => {
+      try {
+        const result = await migrator.reapplyLatest();
+        if (!result) {
+          console.log(pc.yellow("ℹ No migrations to apply"));
+        } else if (result.action === "unchanged") {
+          console.log(pc.dim(`${result.migration} is up to date`));
+        } else {
+          const verb = result.action === "applied" ? "Applied" : "Reapplied";
+          console.log(pc.green(`✓ ${verb} ${result.migration}`));
+        }
+      } catch (error) {
+        if (error instanceof MigrationError) {
+          printMigrationError(error);
+        } else {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          console.log(pc.red(`✗ ${message}`));
+        }
+        // keep watching, the next save may fix it
+        if (!args["--watch"]) process.exitCode = 1;
+      }
+    };
+
+    await reapply();
+    if (!args["--watch"]) {
+      db.close();
+      return;
+    }
+
+    console.log(pc.dim(`Watching ${settings.migrations} for changes`));
+    let timer: NodeJS.Timeout | undefined;
+    let running = Promise.resolve();
+    const changes = fs.watch(settings.migrations, { recursive: true });
+    for await (const { filename } of changes) {
+      // squashed migrations and editor temp files
+      if (!filename || /(^|\/)\./.test(filename)) continue;
+      clearTimeout(timer);
+      // editors often write a file more than once per save
+      timer = setTimeout(() => {
+        running = running.then(reapply);
+      }, 100);
+    }
+  },
+
+  plan: async (direction = "up") => {
+    if (direction !== "up" && direction !== "rollback") {
+      console.log(pc.red("Error: Expected `plan up` or `plan rollback`"));
+      process.exit(1);
+    }
+
+    const db = openDatabase();
+    const migrator = createMigrator(db);
+
+    try {
+      const to = args["--to"];
+      const plan =
+        direction === "up"
+          ? await migrator.plan("up", to)
+          : await migrator.plan("down", to ? { to } : args["--steps"] || 1);
+
+      const out = args["--out"];
+      if (!out) {
+        process.stdout.write(plan.sql);
+        return;
+      }
+      if (plan.migrations.length === 0) {
+        console.log(pc.yellow("ℹ No migrations to plan"));
+        return;
+      }
+
+      await fs.writeFile(out, plan.sql);
+      console.log(pc.green(`✓ Planned ${plural(plan.migrations.length)}`));
+      plan.migrations.forEach((migration, i) => {
+        const isLast = i === plan.migrations.length - 1;
+        console.log(pc.dim(isLast ? "  └─" : "  ├─"), pc.white(migration));
+      });
+      console.log(pc.dim("Plan:"), pc.white(out));
+    } catch (error) {
+      console.log(pc.red(`Error making plan, error below`));
+      throw error;
+    } finally {
+      db.close();
+    }
+  },
+
+  "apply-plan": async (file?: string) => {
+    if (!file) {
+      console.log(pc.red("Error: Plan file is required"));
+      process.exit(1);
+    }
+
+    const db = openDatabase();
+    const migrator = createMigrator(db, {
+      dumpSchema: !!args["--dump-schema"],
+      lock: true,
+      lockTimeout: args["--lock-timeout"],
+    });
+
+    try {
+      const migrations = await migrator.applyPlan(
+        await fs.readFile(file, "utf8"),
+      );
+      console.log(pc.green(`✓ Applied plan, ${plural(migrations.length)}`));
+      migrations.forEach((migration, i) => {
+        const isLast = i === migrations.length - 1;
+        console.log(pc.dim(isLast ? "  └─" : "  ├─"), pc.white(migration));
+      });
+    } catch (error) {
+      if (!(error instanceof StatementError)) {
+        console.log(pc.red(`Error applying plan, error below`));
+        throw error;
+      }
+      console.log(pc.red(`✗ Plan failed`));
+      console.log(pc.dim("  File:     "), pc.white(`${file}:${error.line}`));
+      console.log(pc.dim("  Statement:"), pc.white(error.statement));
+      console.log(pc.dim("  Error:    "), pc.red(error.message));
+      console.log(
+        pc.dim("Migrations committed before the failure stay applied"),
+      );
+      process.exitCode = 1;
+    } finally {
+      db.close();
+    }
+  },
+
+  seed: async (name?: string) => {
+    await fs.mkdir(path.dirname(settings.database), { recursive: true });
+    const db = openDatabase();
+    const seeder = new Seeder(db, settings.seeds, {
+      env: args["--env"] || process.env.MIGRALITE_ENV,
+    });
+
+    try {
+      const seeds = args["--reset"]
+        ? await seeder.reset(name)
+        : await seeder.run(name);
+      if (seeds.length === 0) {
+        console.log(
+          pc.yellow(
+            name
+              ? `ℹ ${name} already ran, pass --reset to run it again`
+              : "ℹ No seeds to run",
+          ),
+        );
+        return;
+      }
+
+      console.log(
+        pc.green(`✓ Ran ${seeds.length} seed${seeds.length !== 1 ? "s" : ""}`),
+      );
+      seeds.forEach((seed, i) => {
+        const isLast = i === seeds.length - 1;
+        console.log(pc.dim(isLast ? "  └─" : "  ├─"), pc.white(seed));
+      });
+    } catch (error) {
+      console.log(pc.red(`Error running seeds, error below`));
+      throw error;
+    } finally {
+      db.close();
+    }
+  },
+
+  types: async () => {
+    const db = openDatabase();
+    const migrator = createMigrator(db);
+
+    try {
+      const out = args["--out"] ?? settings.types;
+      if (!out) {
+        process.stdout.write(migrator.generateTypes());
+        return;
+      }
+
+      const file = await migrator.writeTypes(path.resolve(out));
+      console.log(pc.green("✓ Types written"));
+      console.log(pc.dim("  └─"), pc.white(file));
+    } catch (error) {
+      console.log(pc.red(`Error generating types, error below`));
+      throw error;
+    } finally {
+      db.close();
+    }
+  },
+
+  schema: async (action?: string) => {
+    if (action !== "dump" && action !== "load") {
+      console.log(pc.red("Error: Expected `schema dump` or `schema load`"));
+      process.exit(1);
+    }
+
+    await fs.mkdir(path.dirname(settings.database), { recursive: true });
+    const db = openDatabase();
+    const migrator = createMigrator(db);
+
+    try {
+      if (action === "dump") {
+        const file = await migrator.dumpSchema();
+        console.log(pc.green("✓ Schema dumped"));
+        console.log(pc.dim("  └─"), pc.white(file));
+      } else {
+        const file = await migrator.loadSchema();
+        console.log(pc.green("✓ Schema loaded"));
+        console.log(pc.dim("  └─"), pc.white(file));
+      }
+    } catch (error) {
+      console.log(pc.red(`Error with schema ${action}, error below`));
       throw error;
     } finally {
       db.close();
@@ -140,33 +922,374 @@ const commands = {
     console.log(`
 ${pc.bold("Migralite")}
 
+${pc.dim("Configuration:")}
+  Settings come from flags, then environment variables, then the nearest
+  migralite.config.{json,js,ts} or "migralite" key in package.json.
+
 ${pc.dim("Environment variables:")}
   MIGRATIONS_DIR    Directory for migration files
   DB_PATH          Path to SQLite database file
+  MIGRALITE_ENV    Config environment to use
+
+${pc.dim("Multiple databases:")}
+  up, rollback and status run against every database in the config's
+  "databases", other commands use the first one. Pass --only <name> to
+  pick one.
 
 ${pc.dim("Commands:")}
   create -n <name>      Create a new migration
+  create -n <name> --js Create a new JavaScript migration module
+  create -n <name> --from-schema <file>
+                        Generate a migration from a desired schema file
   up                    Apply pending migrations
-  up --to <name>        Apply migrations up to a specific migration
+  up --to <id>          Apply migrations up to a specific migration
+  up --verify           Refuse to apply migrations if applied ones drifted
+  up --backup           Back up the database before applying migrations
   rollback              Roll back applied migrations
   rollback --steps <n>  Roll back the last n migrations
-  status                Show migration status
+  rollback --to <id>    Roll back migrations applied after a migration
+  down <id>             Roll back one migration, even out of order
+  redo                  Roll back and reapply the latest migration
+  dev                   Apply the latest migration, or reapply it if it changed
+  dev --watch           Reapply the latest migration whenever its files change
+  rebase <id>           Give a pending migration a new timestamp
+  squash --until <id>   Replace old migrations with one baseline migration
+  plan [up|rollback]    Print the SQL up or rollback would run
+  plan --out <file>     Write the plan to a file to review
+  apply-plan <file>     Run a plan if the database hasn't changed since
+  status                Show the state of every migration
+  status --json         Show migration status as JSON
+  verify                Check applied migrations against their files
+  verify --record       Record checksums for migrations applied without them
+  lint                  Check migrations for data loss and irreversible changes
+  test                  Check that pending migrations roll back cleanly
+  unlock                Remove a migration lock left by a crashed run
+  backup                Back up the database
+  backup list           List database backups
+  restore <id>          Replace the database with a backup
+  seed [name]           Run seeds that haven't run yet
+  seed --reset [name]   Run seeds again
+  types --out <file>    Write TypeScript row types for the schema
+  schema dump           Write the current schema to schema.sql
+  schema load           Bootstrap an empty database from schema.sql
 
 ${pc.dim("Options:")}
   -h, --help     Show this help message
-  -d, --dry      Dry run (validate without applying changes)
+  -d, --dry      Dry run (run and report, then roll back)
   -n, --name     Migration name (for create command)
+  --js           Create a migration.js module instead of SQL files
+  --from-schema  Schema file to generate a migration from (for create)
   -s, --steps    Number of migrations to roll back (default: 1)
+  --to           Migration id or name prefix to migrate up or roll back to
+  --until        Last migration to squash
+  --verify       Check for drift before applying migrations
+  --record       Record missing checksums from the current files (for verify)
+  --dump-schema  Write schema.sql after up or rollback
+  --backup       Back up the database before up
+  --watch        Keep running and reapply on changes (for dev)
+  --reset        Run seeds again even if they already ran
+  --out          File to write types or a plan to
+  --lock-timeout Milliseconds to wait for another run's lock (default: 10000)
+  --json         Print machine-readable output (for status and lint)
+  -c, --config   Path to a config file
+  -e, --env      Config environment to use, like dev or prod
+  --db           Path to SQLite database file
+  --dir          Directory for migration files
+  --table        Table applied migrations are recorded in
+  --only         Config database to use, like main or analytics
+  --out-of-order Pending migrations older than applied ones: error, warn
+                 (default) or allow
 
 ${pc.dim("Examples:")}
   Create:   migralite create -n "add users table"
   Up:       migralite up
   Rollback: migralite rollback --steps 2
   Status:   migralite status
+  Verify:   migralite verify
+  Prod:     migralite up --env prod
     `);
   },
 };
 
+async function resolveSettings(): Promise<Settings[]> {
+  const loaded = args["--config"]
+    ? {
+        file: path.resolve(args["--config"]),
+        config: await readConfig(args["--config"]),
+      }
+    : await findConfig(process.cwd());
+
+  const env = args["--env"] || process.env.MIGRALITE_ENV;
+  if (env && !loaded) {
+    throw new Error(`No migralite config found for environment "${env}"`);
+  }
+  const config = loaded ? resolveEnvironment(loaded, env) : {};
+
+  const outOfOrder = args["--out-of-order"] as Settings["outOfOrder"];
+  if (outOfOrder && !["error", "warn", "allow"].includes(outOfOrder)) {
+    throw new Error(
+      `Invalid --out-of-order "${outOfOrder}", expected error, warn or allow`,
+    );
+  }
+
+  const migrations =
+    args["--dir"] ||
+    process.env.MIGRATIONS_DIR ||
+    config.migrations ||
+    path.join(process.cwd(), "db", "migrations");
+  const main: Settings = {
+    name: "main",
+    database:
+      args["--db"] ||
+      process.env.DB_PATH ||
+      config.database ||
+      path.join(process.cwd(), "db", "database.db"),
+    migrations,
+    seeds: config.seeds || path.join(path.dirname(migrations), "seeds"),
+    types: config.types,
+    table: args["--table"] || config.table,
+    pragmas: config.pragmas ?? {},
+    outOfOrder: outOfOrder || config.outOfOrder,
+    lint: config.lint,
+  };
+
+  const databases = Object.entries(config.databases ?? {}).map(
+    ([name, database]): Settings => {
+      if (!database.database || !database.migrations) {
+        throw new Error(
+          `Database "${name}" in ${loaded!.file} needs a database and migrations`,
+        );
+      }
+      return {
+        name,
+        database: database.database,
+        migrations: database.migrations,
+        seeds:
+          database.seeds ||
+          path.join(path.dirname(database.migrations), "seeds"),
+        types: database.types,
+        table: args["--table"] || database.table,
+        pragmas: database.pragmas ?? {},
+        outOfOrder: outOfOrder || database.outOfOrder,
+        lint: database.lint,
+      };
+    },
+  );
+
+  // only list main next to other databases when it's configured
+  const hasMain =
+    databases.length === 0 ||
+    !!(args["--db"] || process.env.DB_PATH || config.database);
+  const all = hasMain ? [main, ...databases] : databases;
+
+  const only = args["--only"];
+  if (!only) return all;
+
+  const selected = all.filter(target => target.name === only);
+  if (selected.length === 0) {
+    throw new Error(
+      `Database "${only}" not found, expected one of ${all.map(t => t.name).join(", ")}`,
+    );
+  }
+  return selected;
+}
+
+/**
+ * Run a command against each database, printing a combined summary when
+ * there's more than one
+ */
+async function forEachDatabase(
+  run: (target: Settings) => Promise<DatabaseResult>,
+) {
+  if (targets.length === 1) {
+    await run(targets[0]);
+    return;
+  }
+
+  const results: (DatabaseResult & { name: string })[] = [];
+  for (const target of targets) {
+    console.log(pc.bold(target.name), pc.dim(target.database));
+    try {
+      results.push({ name: target.name, ...(await run(target)) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.log(pc.red(`✗ ${message}`));
+      results.push({ name: target.name, ok: false, summary: "failed" });
+    }
+    console.log();
+  }
+
+  const width = Math.max(...results.map(r => r.name.length));
+  console.log(pc.dim("Summary:"));
+  for (const result of results) {
+    console.log(
+      " ",
+      result.ok ? pc.green("✓") : pc.red("✗"),
+      pc.white(result.name.padEnd(width)),
+      pc.dim(result.summary),
+    );
+  }
+  if (results.some(r => !r.ok)) {
+    process.exitCode = 1;
+  }
+}
+
+function openDatabase(target = settings) {
+  const db = new Database(target.database);
+  for (const [key, value] of Object.entries(target.pragmas)) {
+    db.pragma(`${key} = ${value}`);
+  }
+  return db;
+}
+
+function createMigrator(
+  db: Database.Database,
+  options: Partial<MigratorOptions> = {},
+  target = settings,
+) {
+  return new Migrator(db, target.migrations, {
+    dry: !!args["--dry"],
+    table: target.table,
+    outOfOrder: target.outOfOrder,
+    typesFile: target.types,
+    // databases next to each other would share backups otherwise
+    backupDir:
+      target.name === "main"
+        ? undefined
+        : path.join(path.dirname(target.database), "backups", target.name),
+    ...options,
+  });
+}
+
+function plural(n: number) {
+  return `${n} migration${n !== 1 ? "s" : ""}`;
+}
+
+const progressVerbs = {
+  up: ["Applying", "Applied"],
+  down: ["Rolling back", "Rolled back"],
+};
+
+function printProgress(migrator: Migrator) {
+  migrator.on("outOfOrder", e => {
+    console.log(
+      pc.magenta(
+        `⚠ ${plural(e.migrations.length)} older than ${e.latest}, applying out of order:`,
+      ),
+    );
+    e.migrations.forEach((migration, i) => {
+      const isLast = i === e.migrations.length - 1;
+      console.log(pc.dim(isLast ? "  └─" : "  ├─"), pc.white(migration));
+    });
+  });
+  migrator.on("runStart", e => {
+    const [verb] = progressVerbs[e.direction];
+    console.log(pc.dim(`${verb} ${plural(e.migrations.length)}:`));
+  });
+  migrator.on("afterMigration", e => {
+    console.log(
+      pc.green("  ✓"),
+      pc.white(e.migration),
+      pc.dim(`${Math.round(e.duration)}ms`),
+    );
+  });
+  migrator.on("migrationFailed", e => {
+    console.log(pc.red("  ✗"), pc.white(e.migration));
+  });
+  migrator.on("runComplete", e => {
+    const [, done] = progressVerbs[e.direction];
+    console.log(
+      pc.green(`✓ ${done} ${plural(e.migrations.length)}`),
+      pc.dim(`in ${Math.round(e.duration)}ms`),
+    );
+  });
+}
+
+function printMigrationError(error: MigrationError) {
+  const cause =
+    error.cause instanceof Error ? error.cause.message : error.message;
+  const location = error.line ? `${error.file}:${error.line}` : error.file;
+
+  console.log();
+  console.log(
+    pc.red(`✗ Migration ${error.migration} failed (${error.direction})`),
+  );
+  console.log(pc.dim("  File:     "), pc.white(location));
+  if (error.statement) {
+    console.log(pc.dim("  Statement:"), pc.white(error.statement));
+  }
+  console.log(pc.dim("  Error:    "), pc.red(cause));
+
+  const verb = error.direction === "up" ? "Applied" : "Rolled back";
+  console.log();
+  if (error.completed.length === 0) {
+    console.log(pc.dim(`${verb} before the failure: none`));
+    return;
+  }
+  console.log(pc.dim(`${verb} before the failure:`));
+  error.completed.forEach((migration, i) => {
+    const isLast = i === error.completed.length - 1;
+    console.log(pc.dim(isLast ? "  └─" : "  ├─"), pc.white(migration));
+  });
+}
+
+function printDryRun(results: DryRunResult[]) {
+  if (results.length === 0) {
+    console.log(pc.yellow("ℹ No migrations to run"));
+    return;
+  }
+
+  for (const result of results) {
+    if (!result.ok) {
+      const error = result.error!;
+      const cause = error.cause instanceof Error ? error.cause : error;
+      console.log(pc.red("✗"), pc.white(result.migration));
+      console.log(pc.dim("  ├─"), pc.red(cause.message));
+      if (result.statement) {
+        console.log(pc.dim(`  └─ line ${result.line}:`), result.statement);
+      }
+      process.exitCode = 1;
+      continue;
+    }
+
+    if (result.skipped) {
+      console.log(pc.yellow("-"), pc.white(result.migration));
+      console.log(
+        pc.dim("  └─"),
+        pc.yellow("Runs with no-transaction, which can't be dry run"),
+      );
+      continue;
+    }
+
+    console.log(pc.green("✓"), pc.white(result.migration));
+    const diff = result.diff!;
+    const lines = [
+      ...diff.added.map(o => pc.green(`+ ${o.type} ${o.name}`)),
+      ...diff.removed.map(o => pc.red(`- ${o.type} ${o.name}`)),
+      ...diff.changed.map(c => pc.yellow(`~ ${c.after.type} ${c.after.name}`)),
+    ];
+    lines.forEach((line, i) => {
+      const isLast = i === lines.length - 1;
+      console.log(pc.dim(isLast ? "  └─" : "  ├─"), line);
+    });
+  }
+
+  console.log();
+  console.log(pc.dim("Rolled back, no changes were written"));
+}
+
+function moduleTemplate(name: string) {
+  return `// Migration for ${name}
+// Runs inside the migration's transaction, so keep these synchronous.
+
+/** @param {import("better-sqlite3").Database} db */
+export function up(db) {}
+
+/** @param {import("better-sqlite3").Database} db */
+export function down(db) {}
+`;
+}
+
 async function main() {
   if (args["--help"]) {
     commands.help();
@@ -174,6 +1297,8 @@ async function main() {
   }
 
   const command = args._[0];
+  targets = await resolveSettings();
+  settings = targets[0];
 
   if (args["--dry"]) {
     console.log(pc.yellow("🔎Dry run"));
@@ -185,14 +1310,62 @@ async function main() {
       await commands.create(args["--name"]);
       break;
     case "up":
-      await commands.up(args._[1]);
+      await commands.up(args["--to"] ?? args._[1]);
       break;
     case "rollback":
-      await commands.rollback(args["--steps"]);
+      await commands.rollback(args["--steps"], args["--to"]);
+      break;
+    case "down":
+      await commands.down(args._[1]);
+      break;
+    case "redo":
+      await commands.redo();
+      break;
+    case "rebase":
+      await commands.rebase(args._[1]);
+      break;
+    case "squash":
+      await commands.squash(args["--until"]);
       break;
     case "status":
       await commands.status();
       break;
+    case "verify":
+      await commands.verify();
+      break;
+    case "lint":
+      await commands.lint();
+      break;
+    case "test":
+      await commands.test();
+      break;
+    case "unlock":
+      await commands.unlock();
+      break;
+    case "backup":
+      await commands.backup(args._[1]);
+      break;
+    case "restore":
+      await commands.restore(args._[1]);
+      break;
+    case "dev":
+      await commands.dev();
+      break;
+    case "plan":
+      await commands.plan(args._[1]);
+      break;
+    case "apply-plan":
+      await commands["apply-plan"](args._[1]);
+      break;
+    case "seed":
+      await commands.seed(args._[1]);
+      break;
+    case "types":
+      await commands.types();
+      break;
+    case "schema":
+      await commands.schema(args._[1]);
+      break;
     default:
       console.log(pc.red("Error: Invalid command"));
       commands.help();
@@ -0,0 +1,117 @@
+import assert from "node:assert";
+import { afterEach, test, describe } from "node:test";
+import fs from "node:fs/promises";
+import path from "node:path";
+import Database from "better-sqlite3";
+import {
+  createBackup,
+  listBackups,
+  pruneBackups,
+  restoreBackup,
+} from "./backup.ts";
+
+const TEST_DIR = await fs.mkdtemp("test");
+const BACKUP_DIR = path.join(TEST_DIR, "backups");
+
+afterEach(async () => {
+  await fs.rm(TEST_DIR, { recursive: true, force: true });
+});
+
+async function openDatabase() {
+  await fs.mkdir(TEST_DIR, { recursive: true });
+  return new Database(path.join(TEST_DIR, "db.sqlite"));
+}
+
+describe("createBackup", () => {
+  test("copies the database into the backup directory", async () => {
+    let db = await openDatabase();
+    db.exec("CREATE TABLE users (id INTEGER); INSERT INTO users VALUES (1)");
+
+    let backup = await createBackup(db, BACKUP_DIR);
+    db.close();
+
+    assert.match(backup.id, /^\d{17}$/);
+    let copy = new Database(backup.file, { readonly: true });
+    assert.deepEqual(copy.prepare("SELECT id FROM users").all(), [{ id: 1 }]);
+    copy.close();
+  });
+
+  test("copies attached databases", async () => {
+    let db = await openDatabase();
+    db.prepare("ATTACH ? AS analytics").run(path.join(TEST_DIR, "a.sqlite"));
+    db.exec("CREATE TABLE analytics.events (id INTEGER)");
+
+    let backup = await createBackup(db, BACKUP_DIR, "analytics");
+    db.close();
+
+    let copy = new Database(backup.file, { readonly: true });
+    let tables = copy.prepare("SELECT name FROM sqlite_master").all();
+    assert.deepEqual(tables, [{ name: "events" }]);
+    copy.close();
+  });
+
+  test("refuses in-memory databases", async () => {
+    let db = new Database(":memory:");
+    await assert.rejects(createBackup(db, BACKUP_DIR), /In-memory/);
+  });
+});
+
+describe("listBackups", () => {
+  test("lists backups oldest first", async () => {
+    let db = await openDatabase();
+    let a = await createBackup(db, BACKUP_DIR);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    let b = await createBackup(db, BACKUP_DIR);
+    db.close();
+
+    let backups = await listBackups(BACKUP_DIR);
+    assert.deepEqual(
+      backups.map(backup => backup.id),
+      [a.id, b.id],
+    );
+  });
+
+  test("missing directory has no backups", async () => {
+    assert.deepEqual(await listBackups(BACKUP_DIR), []);
+  });
+});
+
+test("pruneBackups keeps the newest backups", async () => {
+  let db = await openDatabase();
+  let ids: string[] = [];
+  for (let i = 0; i < 3; i++) {
+    ids.push((await createBackup(db, BACKUP_DIR)).id);
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  db.close();
+
+  let removed = await pruneBackups(BACKUP_DIR, 2);
+  assert.deepEqual(
+    removed.map(backup => backup.id),
+    [ids[0]],
+  );
+
+  let backups = await listBackups(BACKUP_DIR);
+  assert.deepEqual(
+    backups.map(backup => backup.id),
+    ids.slice(1),
+  );
+});
+
+test("restoreBackup copies a backup over the database", async () => {
+  let db = await openDatabase();
+  db.exec("CREATE TABLE users (id INTEGER, email TEXT)");
+  db.exec("INSERT INTO users VALUES (1, 'a@example.com')");
+
+  let backup = await createBackup(db, BACKUP_DIR);
+  db.exec("ALTER TABLE users DROP COLUMN email");
+
+  let restored = await restoreBackup(db, BACKUP_DIR, backup.id.slice(0, 14));
+  assert.equal(restored.id, backup.id);
+  assert.deepEqual(db.prepare("SELECT * FROM users").all(), [
+    { id: 1, email: "a@example.com" },
+  ]);
+
+  await assert.rejects(restoreBackup(db, BACKUP_DIR, "nope"), /not found/);
+  db.close();
+});
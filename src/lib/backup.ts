@@ -0,0 +1,118 @@
+import path from "path";
+import fs from "fs/promises";
+import Sqlite, { type Database } from "better-sqlite3";
+import invariant from "tiny-invariant";
+
+export type BackupEntry = {
+  id: string;
+  file: string;
+  size: number;
+};
+
+const EXTENSION = ".sqlite";
+
+/**
+ * The file behind an attached database, or an empty string when it's in
+ * memory
+ */
+export function databaseFile(db: Database, schema = "main") {
+  let databases = db.pragma("database_list") as {
+    name: string;
+    file: string;
+  }[];
+  let database = databases.find(d => d.name === schema);
+  invariant(database, `Database ${schema} is not attached`);
+  return database.file;
+}
+
+/**
+ * Snapshot a file database into `dir` with SQLite's online backup API, or
+ * `VACUUM INTO` for attached databases
+ */
+export async function createBackup(
+  db: Database,
+  dir: string,
+  schema = "main",
+): Promise<BackupEntry> {
+  invariant(databaseFile(db, schema), "In-memory databases can't be backed up");
+
+  // milliseconds keep back to back backups from colliding
+  let id = new Date().toISOString().replace(/\D/g, "").slice(0, 17);
+  let file = path.join(dir, `${id}${EXTENSION}`);
+
+  await fs.mkdir(dir, { recursive: true });
+  if (schema === "main") {
+    await db.backup(file);
+  } else {
+    db.prepare(`VACUUM ${schema} INTO ?`).run(file);
+  }
+
+  let stat = await fs.stat(file);
+  return { id, file, size: stat.size };
+}
+
+/**
+ * List the backups in `dir`, oldest first
+ */
+export async function listBackups(dir: string): Promise<BackupEntry[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  let backups = files.filter(f => f.endsWith(EXTENSION)).sort();
+  return Promise.all(
+    backups.map(async name => {
+      let file = path.join(dir, name);
+      let stat = await fs.stat(file);
+      return { id: path.basename(name, EXTENSION), file, size: stat.size };
+    }),
+  );
+}
+
+/**
+ * Remove all but the newest `keep` backups in `dir`
+ */
+export async function pruneBackups(dir: string, keep: number) {
+  let backups = await listBackups(dir);
+  let removed = backups.slice(0, Math.max(backups.length - keep, 0));
+  for (let backup of removed) {
+    await fs.rm(backup.file);
+  }
+  return removed;
+}
+
+/**
+ * Copy a backup over the database, `id` may be a prefix of the backup id
+ */
+export async function restoreBackup(
+  db: Database,
+  dir: string,
+  id: string,
+  schema = "main",
+) {
+  let target = databaseFile(db, schema);
+  invariant(target, "In-memory databases can't be restored");
+
+  let backups = await listBackups(dir);
+  let matches = backups.filter(b => b.id.startsWith(id));
+  if (matches.length === 0) {
+    throw new Error(`Backup ${id} not found`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Backup ${id} is ambiguous, matches ${matches.length}`);
+  }
+
+  let [backup] = matches;
+  let source = new Sqlite(backup.file, { readonly: true, fileMustExist: true });
+  try {
+    await source.backup(target);
+  } finally {
+    source.close();
+  }
+
+  return backup;
+}
@@ -0,0 +1,142 @@
+import assert from "node:assert";
+import { afterEach, test, describe } from "node:test";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { findConfig, resolveEnvironment } from "./config.ts";
+
+const TEST_DIR = await fs.mkdtemp("test");
+
+afterEach(async () => {
+  await fs.rm(TEST_DIR, { recursive: true, force: true });
+});
+
+async function write(file: string, contents: string) {
+  let filePath = path.join(TEST_DIR, file);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, contents);
+  return path.resolve(filePath);
+}
+
+describe("findConfig", () => {
+  test("finds a json config in a parent directory", async () => {
+    let file = await write(
+      "migralite.config.json",
+      JSON.stringify({ database: "db/app.db" }),
+    );
+    await fs.mkdir(path.join(TEST_DIR, "packages", "api"), { recursive: true });
+
+    let loaded = await findConfig(path.join(TEST_DIR, "packages", "api"));
+    assert.deepEqual(loaded, { file, config: { database: "db/app.db" } });
+  });
+
+  test("loads js configs", async () => {
+    let file = await write(
+      "migralite.config.js",
+      "export default { migrations: 'db/migrations' };",
+    );
+
+    let loaded = await findConfig(TEST_DIR);
+    assert.deepEqual(loaded, { file, config: { migrations: "db/migrations" } });
+  });
+
+  test("reads the migralite key in package.json", async () => {
+    let file = await write(
+      "package.json",
+      JSON.stringify({ name: "app", migralite: { table: "migrations" } }),
+    );
+
+    let loaded = await findConfig(TEST_DIR);
+    assert.deepEqual(loaded, { file, config: { table: "migrations" } });
+  });
+
+  test("skips package.json without a migralite key", async () => {
+    await write("package.json", JSON.stringify({ name: "app" }));
+    let file = await write(
+      "packages/api/package.json",
+      JSON.stringify({ migralite: { table: "migrations" } }),
+    );
+    await write("packages/api/src/.keep", "");
+
+    let loaded = await findConfig(path.join(TEST_DIR, "packages/api/src"));
+    assert.equal(loaded?.file, file);
+  });
+});
+
+describe("resolveEnvironment", () => {
+  test("merges the environment over top level values", () => {
+    let resolved = resolveEnvironment(
+      {
+        file: "/app/migralite.config.json",
+        config: {
+          migrations: "db/migrations",
+          pragmas: { foreign_keys: "ON" },
+          environments: {
+            dev: { database: "db/dev.db" },
+            prod: {
+              database: "/var/data/prod.db",
+              pragmas: { journal_mode: "WAL" },
+            },
+          },
+        },
+      },
+      "prod",
+    );
+
+    assert.deepEqual(resolved, {
+      database: "/var/data/prod.db",
+      migrations: "/app/db/migrations",
+      pragmas: { foreign_keys: "ON", journal_mode: "WAL" },
+    });
+  });
+
+  test("merges databases by name and inherits top level values", () => {
+    let resolved = resolveEnvironment(
+      {
+        file: "/app/migralite.config.json",
+        config: {
+          table: "migrations",
+          outOfOrder: "error",
+          pragmas: { foreign_keys: "ON" },
+          databases: {
+            analytics: {
+              database: "db/analytics.db",
+              migrations: "db/analytics",
+            },
+          },
+          environments: {
+            prod: {
+              databases: {
+                analytics: { database: "/var/data/analytics.db" },
+              },
+            },
+          },
+        },
+      },
+      "prod",
+    );
+
+    assert.deepEqual(resolved.databases, {
+      analytics: {
+        database: "/var/data/analytics.db",
+        migrations: "/app/db/analytics",
+        pragmas: { foreign_keys: "ON" },
+        table: "migrations",
+        outOfOrder: "error",
+      },
+    });
+  });
+
+  test("unknown environments throw", () => {
+    assert.throws(
+      () =>
+        resolveEnvironment(
+          {
+            file: "/app/migralite.config.json",
+            config: { environments: { dev: {}, test: {} } },
+          },
+          "prod",
+        ),
+      /Environment "prod" not found in .*, expected one of dev, test/,
+    );
+  });
+});
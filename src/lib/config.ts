@@ -0,0 +1,170 @@
+import path from "path";
+import fs from "fs/promises";
+import { pathToFileURL } from "url";
+import type { LintRules } from "./lint.ts";
+
+export type DatabaseConfig = {
+  /** Path to the SQLite database file */
+  database?: string;
+  /** Directory for migration files */
+  migrations?: string;
+  /** Directory for seed files, defaults to `seeds` next to the migrations */
+  seeds?: string;
+  /** TypeScript file to write row types to after `up` and `rollback` */
+  types?: string;
+  /** Pragmas to set when the database is opened, like `{ journal_mode: "WAL" }` */
+  pragmas?: Record<string, string | number | boolean>;
+  /** Table applied migrations are recorded in */
+  table?: string;
+  /** What `up` does with migrations older than the latest applied one */
+  outOfOrder?: "error" | "warn" | "allow";
+  /** Lint rule severities, like `{ "missing-if-exists": "off" }` */
+  lint?: LintRules;
+};
+
+export type EnvironmentConfig = DatabaseConfig & {
+  /**
+   * More databases with their own migrations, like `{ analytics: {...} }`.
+   * They inherit the top level `pragmas`, `table`, `outOfOrder` and `lint`.
+   */
+  databases?: Record<string, DatabaseConfig>;
+};
+
+/**
+ * Top level values apply to every environment, and the selected environment's
+ * values override them.
+ */
+export type MigraliteConfig = EnvironmentConfig & {
+  environments?: Record<string, EnvironmentConfig>;
+};
+
+export type LoadedConfig = {
+  /** The file the config was read from */
+  file: string;
+  config: MigraliteConfig;
+};
+
+const CONFIG_FILES = [
+  "migralite.config.json",
+  "migralite.config.js",
+  "migralite.config.ts",
+];
+
+/**
+ * Find the nearest `migralite.config.{json,js,ts}` or `package.json` with a
+ * `migralite` key, starting in `cwd` and walking up.
+ */
+export async function findConfig(cwd: string): Promise<LoadedConfig | null> {
+  let dir = path.resolve(cwd);
+
+  while (true) {
+    for (let name of CONFIG_FILES) {
+      let file = path.join(dir, name);
+      if (await exists(file)) {
+        return { file, config: await readConfig(file) };
+      }
+    }
+
+    let pkgFile = path.join(dir, "package.json");
+    if (await exists(pkgFile)) {
+      let pkg = JSON.parse(await fs.readFile(pkgFile, "utf8"));
+      if (pkg.migralite) {
+        return { file: pkgFile, config: pkg.migralite };
+      }
+    }
+
+    let parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+export async function readConfig(file: string): Promise<MigraliteConfig> {
+  if (file.endsWith(".json")) {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  }
+
+  let mod = await import(pathToFileURL(path.resolve(file)).href);
+  return mod.default ?? mod;
+}
+
+/**
+ * Merge an environment's values over the top level values, resolving paths
+ * relative to the config file. Databases are merged by name.
+ */
+export function resolveEnvironment(
+  loaded: LoadedConfig,
+  env?: string,
+): EnvironmentConfig {
+  let { environments, ...base } = loaded.config;
+  let values: EnvironmentConfig = { ...base };
+
+  if (env) {
+    let environment = environments?.[env];
+    if (!environment) {
+      let known = Object.keys(environments ?? {});
+      throw new Error(
+        `Environment "${env}" not found in ${loaded.file}${known.length ? `, expected one of ${known.join(", ")}` : ""}`,
+      );
+    }
+    values = {
+      ...mergeDatabase(values, environment),
+      databases: { ...values.databases },
+    };
+    for (let [name, database] of Object.entries(environment.databases ?? {})) {
+      values.databases![name] = mergeDatabase(
+        values.databases![name] ?? {},
+        database,
+      );
+    }
+  }
+
+  let root = path.dirname(loaded.file);
+  let { databases, ...main } = values;
+  let resolved: EnvironmentConfig = resolvePaths(root, main);
+  if (databases && Object.keys(databases).length > 0) {
+    resolved.databases = {};
+    for (let [name, database] of Object.entries(databases)) {
+      resolved.databases[name] = resolvePaths(root, {
+        table: main.table,
+        outOfOrder: main.outOfOrder,
+        ...(main.lint && { lint: main.lint }),
+        ...database,
+        pragmas: { ...main.pragmas, ...database.pragmas },
+      });
+    }
+  }
+  return resolved;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+function mergeDatabase(
+  base: DatabaseConfig,
+  override: DatabaseConfig,
+): DatabaseConfig {
+  return {
+    ...base,
+    ...override,
+    pragmas: { ...base.pragmas, ...override.pragmas },
+  };
+}
+
+function resolvePaths(root: string, config: DatabaseConfig): DatabaseConfig {
+  return {
+    ...config,
+    database: config.database && path.resolve(root, config.database),
+    migrations: config.migrations && path.resolve(root, config.migrations),
+    ...(config.seeds && { seeds: path.resolve(root, config.seeds) }),
+    ...(config.types && { types: path.resolve(root, config.types) }),
+  };
+}
+
+async function exists(file: string) {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,140 @@
+import assert from "node:assert";
+import { test, describe } from "node:test";
+import Database from "better-sqlite3";
+import { generateMigration } from "./generate.ts";
+import { readSchema } from "./schema.ts";
+
+function schemaOf(sql: string) {
+  let db = new Database(":memory:");
+  db.exec(sql);
+  return readSchema(db);
+}
+
+/**
+ * Generate a migration from `current` to `desired`, checking that up and
+ * down land on the right schemas
+ */
+function roundTrip(db: Database.Database, desired: string) {
+  let before = readSchema(db);
+  let migration = generateMigration(before, schemaOf(desired));
+
+  db.exec(migration.up);
+  assert.equal(generateMigration(readSchema(db), schemaOf(desired)).up, "");
+
+  db.exec(migration.down);
+  assert.equal(generateMigration(readSchema(db), before).up, "");
+
+  db.exec(migration.up);
+  return migration;
+}
+
+describe("generateMigration", () => {
+  test("creates and drops tables, indexes, views and triggers", () => {
+    let db = new Database(":memory:");
+    db.exec("CREATE TABLE users (id INTEGER PRIMARY KEY)");
+
+    let migration = roundTrip(
+      db,
+      `
+        CREATE TABLE users (id INTEGER PRIMARY KEY);
+        CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER);
+        CREATE INDEX posts_user_id ON posts (user_id);
+        CREATE VIEW post_counts AS SELECT user_id, count(*) AS n FROM posts GROUP BY user_id;
+        CREATE TRIGGER users_cleanup AFTER DELETE ON users BEGIN DELETE FROM posts WHERE user_id = old.id; END;
+      `,
+    );
+
+    assert.match(migration.up, /^CREATE TABLE posts/);
+    assert.equal(
+      migration.down,
+      [
+        `DROP TRIGGER "users_cleanup";`,
+        `DROP VIEW "post_counts";`,
+        `DROP INDEX "posts_user_id";`,
+        `DROP TABLE "posts";`,
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("adds appended columns with ALTER TABLE", () => {
+    let db = new Database(":memory:");
+    db.exec("CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)");
+
+    let migration = roundTrip(
+      db,
+      `CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        name TEXT,
+        email TEXT NOT NULL DEFAULT ''
+      )`,
+    );
+
+    assert.equal(
+      migration.up,
+      `ALTER TABLE "users" ADD COLUMN email TEXT NOT NULL DEFAULT '';\n`,
+    );
+    // the ALTERed table only differs in formatting
+    assert.equal(
+      generateMigration(
+        readSchema(db),
+        schemaOf(
+          "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, email TEXT NOT NULL DEFAULT '')",
+        ),
+      ).up,
+      "",
+    );
+  });
+
+  test("rebuilds tables for changes ALTER TABLE can't make", () => {
+    let db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, age TEXT);
+      CREATE INDEX users_name ON users (name);
+      CREATE VIEW names AS SELECT name FROM users;
+      INSERT INTO users VALUES (1, 'ada', '36');
+    `);
+
+    let migration = roundTrip(
+      db,
+      `
+        CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, age INTEGER);
+        CREATE INDEX users_name ON users (name);
+        CREATE VIEW names AS SELECT name FROM users;
+      `,
+    );
+
+    assert.match(migration.up, /^-- migralite: foreign-keys-off\n/);
+    assert.match(
+      migration.up,
+      /CREATE TABLE "_migralite_new_users" \(id INTEGER PRIMARY KEY, name TEXT NOT NULL, age INTEGER\);\nINSERT INTO "_migralite_new_users" \("id", "name", "age"\) SELECT "id", "name", "age" FROM "users";\nDROP TABLE "users";\nALTER TABLE "_migralite_new_users" RENAME TO "users";/,
+    );
+    assert.deepEqual(db.prepare("SELECT * FROM users").all(), [
+      { id: 1, name: "ada", age: 36 },
+    ]);
+    assert.deepEqual(db.prepare("SELECT * FROM names").all(), [
+      { name: "ada" },
+    ]);
+  });
+
+  test("dropped columns aren't copied", () => {
+    let db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, legacy TEXT);
+      INSERT INTO users VALUES (1, 'ada', 'x');
+    `);
+
+    roundTrip(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)");
+    assert.deepEqual(db.prepare("SELECT * FROM users").all(), [
+      { id: 1, name: "ada" },
+    ]);
+  });
+
+  test("matching schemas generate nothing", () => {
+    let sql = "CREATE TABLE users (id INTEGER); CREATE INDEX i ON users (id)";
+    assert.deepEqual(generateMigration(schemaOf(sql), schemaOf(sql)), {
+      up: "",
+      down: "",
+    });
+  });
+});
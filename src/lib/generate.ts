@@ -0,0 +1,246 @@
+import { sameSql, type SchemaObject } from "./schema.ts";
+
+export type GeneratedMigration = {
+  /** SQL that turns the current schema into the desired one */
+  up: string;
+  /** SQL that turns the desired schema back into the current one */
+  down: string;
+};
+
+type TableDefinition = {
+  columns: string[];
+  constraints: string[];
+  /** Table options after the definitions, like `WITHOUT ROWID` */
+  options: string;
+};
+
+const CONSTRAINT = /^(CONSTRAINT|PRIMARY|UNIQUE|CHECK|FOREIGN)\b/i;
+
+/**
+ * Generate the SQL to migrate between two schemas read with `readSchema`.
+ * Columns appended to a table are added with `ALTER TABLE`, any other table
+ * change rebuilds the table: create it under a temporary name, copy the
+ * shared columns, drop the old table and rename the new one into place,
+ * with foreign keys turned off.
+ */
+export function generateMigration(
+  current: SchemaObject[],
+  desired: SchemaObject[],
+): GeneratedMigration {
+  return {
+    up: migrationSql(current, desired),
+    down: migrationSql(desired, current),
+  };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+function migrationSql(from: SchemaObject[], to: SchemaObject[]) {
+  let key = (object: SchemaObject) => `${object.type}:${object.name}`;
+  let fromMap = new Map(from.map(object => [key(object), object]));
+  let toMap = new Map(to.map(object => [key(object), object]));
+
+  let alters = new Map<string, string[]>();
+  let rebuilds = new Map<
+    string,
+    { before: SchemaObject; after: SchemaObject }
+  >();
+  for (let after of to.filter(o => o.type === "table")) {
+    let before = fromMap.get(key(after));
+    if (!before || sameSql(before, after)) continue;
+
+    let added = addedColumns(before.sql, after.sql);
+    if (added) {
+      alters.set(after.name, added);
+    } else {
+      rebuilds.set(after.name, { before, after });
+    }
+  }
+
+  let rebuilt = (object: SchemaObject) => rebuilds.has(object.tbl_name);
+  // in `from` and removed or changed in `to`
+  let gone = (object: SchemaObject) => {
+    let next = toMap.get(key(object));
+    return !next || !sameSql(object, next);
+  };
+  // in `to` and new or changed since `from`
+  let changed = (object: SchemaObject) => {
+    let previous = fromMap.get(key(object));
+    return !previous || !sameSql(previous, object);
+  };
+  // renaming a rebuilt table into place fails while views reference it
+  let recreateViews = rebuilds.size > 0;
+
+  let statements: string[] = [];
+
+  for (let object of [...from].reverse()) {
+    if (object.type === "table") continue;
+    let drop =
+      object.type === "view"
+        ? gone(object) || recreateViews
+        : gone(object) && !rebuilt(object);
+    if (drop) {
+      statements.push(
+        `DROP ${object.type.toUpperCase()} ${quoteName(object.name)}`,
+      );
+    }
+  }
+
+  for (let object of from) {
+    if (object.type === "table" && !toMap.has(key(object))) {
+      statements.push(`DROP TABLE ${quoteName(object.name)}`);
+    }
+  }
+
+  for (let object of to) {
+    if (object.type === "table" && !fromMap.has(key(object))) {
+      statements.push(object.sql);
+    }
+  }
+
+  for (let [table, columns] of alters) {
+    for (let column of columns) {
+      statements.push(`ALTER TABLE ${quoteName(table)} ADD COLUMN ${column}`);
+    }
+  }
+
+  for (let [table, { before, after }] of rebuilds) {
+    statements.push(...rebuildTable(table, before.sql, after.sql));
+  }
+
+  for (let object of to) {
+    if (object.type === "table") continue;
+    let create =
+      object.type === "view"
+        ? changed(object) || recreateViews
+        : changed(object) || rebuilt(object);
+    if (create) {
+      statements.push(object.sql);
+    }
+  }
+
+  let sql = statements.map(statement => `${statement};\n`).join("");
+  // dropping a table other tables reference would delete or fail on their rows
+  return rebuilds.size > 0 ? `-- migralite: foreign-keys-off\n${sql}` : sql;
+}
+
+function rebuildTable(table: string, fromSql: string, toSql: string) {
+  let temp = `_migralite_new_${table}`;
+  let fromColumns = parseTable(fromSql)?.columns.map(columnName) ?? [];
+  let shared = (parseTable(toSql)?.columns.map(columnName) ?? [])
+    .filter(column => fromColumns.includes(column))
+    .map(quoteName)
+    .join(", ");
+
+  let statements = [`-- Rebuild ${table}\n${renameTable(toSql, temp)}`];
+  if (shared) {
+    statements.push(
+      `INSERT INTO ${quoteName(temp)} (${shared}) SELECT ${shared} FROM ${quoteName(table)}`,
+    );
+  }
+  statements.push(
+    `DROP TABLE ${quoteName(table)}`,
+    `ALTER TABLE ${quoteName(temp)} RENAME TO ${quoteName(table)}`,
+  );
+  return statements;
+}
+
+/**
+ * The column definitions `to` appends to `from`, when `ALTER TABLE ADD
+ * COLUMN` can add all of them
+ */
+function addedColumns(fromSql: string, toSql: string) {
+  let before = parseTable(fromSql);
+  let after = parseTable(toSql);
+  if (!before || !after) return null;
+
+  if (
+    before.options !== after.options ||
+    before.constraints.join() !== after.constraints.join() ||
+    after.columns.length <= before.columns.length ||
+    before.columns.some((column, i) => column !== after.columns[i])
+  ) {
+    return null;
+  }
+
+  let added = after.columns.slice(before.columns.length);
+  return added.every(canAddColumn) ? added : null;
+}
+
+// https://www.sqlite.org/lang_altertable.html#alter_table_add_column
+function canAddColumn(column: string) {
+  if (/\b(PRIMARY\s+KEY|UNIQUE|STORED)\b/i.test(column)) return false;
+  if (/\bDEFAULT\s*(\(|CURRENT_)/i.test(column)) return false;
+  return !/\bNOT\s+NULL\b/i.test(column) || /\bDEFAULT\b/i.test(column);
+}
+
+function parseTable(sql: string): TableDefinition | null {
+  let start = sql.indexOf("(");
+  if (start === -1) return null;
+
+  let items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let item = "";
+  let end = -1;
+
+  for (let i = start + 1; i < sql.length; i++) {
+    let char = sql[i];
+    if (quote) {
+      item += char;
+      if (char === quote) quote = null;
+      continue;
+    }
+
+    if (char === "'" || char === '"' || char === "`") {
+      quote = char;
+    } else if (char === "[") {
+      quote = "]";
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")" && depth === 0) {
+      end = i;
+      break;
+    } else if (char === ")") {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      items.push(normalize(item));
+      item = "";
+      continue;
+    }
+    item += char;
+  }
+  if (end === -1) return null;
+  items.push(normalize(item));
+
+  return {
+    columns: items.filter(i => !CONSTRAINT.test(i)),
+    constraints: items.filter(i => CONSTRAINT.test(i)),
+    options: normalize(sql.slice(end + 1)),
+  };
+}
+
+function columnName(definition: string) {
+  let match = definition.match(/^("(?:[^"]|"")+"|`[^`]+`|\[[^\]]+\]|\S+)/);
+  let name = match ? match[1] : definition;
+  return /^["`[]/.test(name) ? name.slice(1, -1).replace(/""/g, '"') : name;
+}
+
+function renameTable(sql: string, name: string) {
+  return sql.replace(
+    /^(CREATE\s+TABLE\s+)("(?:[^"]|"")+"|`[^`]+`|\[[^\]]+\]|[^\s(]+)/i,
+    `$1${quoteName(name)}`,
+  );
+}
+
+// formatting differences, like the text ALTER TABLE leaves, aren't changes
+function normalize(sql: string) {
+  return sql
+    .replace(/\s+/g, " ")
+    .replace(/\s*([(),])\s*/g, "$1")
+    .trim();
+}
+
+function quoteName(name: string) {
+  return `"${name.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,117 @@
+import assert from "node:assert";
+import { test, describe } from "node:test";
+import { lintMigration, type LintRules } from "./lint.ts";
+
+function lint(up: string, down: string, rules?: LintRules) {
+  return lintMigration(
+    {
+      migration: "01-test",
+      up,
+      down,
+      upFile: "01-test/+.sql",
+      downFile: "01-test/-.sql",
+    },
+    rules,
+  ).map(issue => `${issue.file}:${issue.line} ${issue.severity} ${issue.rule}`);
+}
+
+describe("lintMigration", () => {
+  test("passes a reversible migration", () => {
+    assert.deepEqual(
+      lint(
+        "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)",
+        "DROP TABLE IF EXISTS users",
+      ),
+      [],
+    );
+  });
+
+  test("flags empty and placeholder migrations", () => {
+    assert.deepEqual(lint("-- Up migration for users\n", "\n"), [
+      "01-test/+.sql:null error empty-migration",
+      "01-test/-.sql:null error empty-migration",
+    ]);
+  });
+
+  test("flags drops the down migration doesn't undo", () => {
+    assert.deepEqual(
+      lint(
+        "DROP TABLE IF EXISTS posts;\nALTER TABLE users DROP COLUMN bio;\nALTER TABLE users DROP COLUMN age;",
+        'ALTER TABLE users ADD COLUMN "age" INTEGER',
+      ),
+      [
+        "01-test/+.sql:1 error drop-without-recreate",
+        "01-test/+.sql:2 error drop-without-recreate",
+      ],
+    );
+
+    // a rebuild replaces the table it drops
+    assert.deepEqual(
+      lint(
+        `CREATE TABLE new_users (id INTEGER);
+        INSERT INTO new_users SELECT id FROM users;
+        DROP TABLE IF EXISTS users;
+        ALTER TABLE new_users RENAME TO users;`,
+        "CREATE TABLE IF NOT EXISTS users_old (id INTEGER)",
+      ),
+      [],
+    );
+  });
+
+  test("flags risky statements in either direction", () => {
+    assert.deepEqual(
+      lint(
+        `ALTER TABLE users ADD COLUMN email TEXT NOT NULL;
+        ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'user';
+        CREATE TABLE events (at TEXT DEFAULT CURRENT_TIMESTAMP, token BLOB DEFAULT (randomblob(16)));`,
+        "DROP TABLE events;\nDROP INDEX main.users_email",
+      ),
+      [
+        "01-test/+.sql:1 error add-column-not-null",
+        "01-test/+.sql:3 warn non-deterministic-default",
+        "01-test/-.sql:1 warn missing-if-exists",
+        "01-test/-.sql:2 warn missing-if-exists",
+      ],
+    );
+  });
+
+  test("configures and suppresses rules", () => {
+    let up = "DROP TABLE users";
+    assert.deepEqual(lint(up, "CREATE TABLE users (id INTEGER)"), [
+      "01-test/+.sql:1 warn missing-if-exists",
+    ]);
+    assert.deepEqual(
+      lint(up, "CREATE TABLE users (id INTEGER)", {
+        "missing-if-exists": "off",
+      }),
+      [],
+    );
+    assert.deepEqual(
+      lint(up, "", { "empty-migration": "warn", "missing-if-exists": "error" }),
+      [
+        "01-test/+.sql:1 error missing-if-exists",
+        "01-test/-.sql:null warn empty-migration",
+        "01-test/+.sql:1 error drop-without-recreate",
+      ],
+    );
+
+    assert.deepEqual(
+      lint(
+        `-- the old users table isn't used anymore
+        -- migralite-lint-disable drop-without-recreate, missing-if-exists
+        DROP TABLE users;
+        DROP TABLE posts;`,
+        "-- migralite-lint-disable-file\n",
+      ),
+      [
+        "01-test/+.sql:4 warn missing-if-exists",
+        "01-test/+.sql:4 error drop-without-recreate",
+      ],
+    );
+
+    assert.throws(
+      () => lint(up, "", { "no-drops": "off" } as LintRules),
+      /Unknown lint rule "no-drops", expected one of empty-migration/,
+    );
+  });
+});
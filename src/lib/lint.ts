@@ -0,0 +1,282 @@
+import { splitStatements, type Statement } from "./sql.ts";
+
+export type LintRule =
+  | "empty-migration"
+  | "drop-without-recreate"
+  | "add-column-not-null"
+  | "missing-if-exists"
+  | "non-deterministic-default";
+
+export type LintSeverity = "error" | "warn" | "off";
+
+/** Severity overrides by rule, like `{ "missing-if-exists": "off" }` */
+export type LintRules = Partial<Record<LintRule, LintSeverity>>;
+
+export type LintIssue = {
+  migration: string;
+  /** The file with the issue, relative to the migrations directory */
+  file: string;
+  /** The line the statement starts on, null for issues with the whole file */
+  line: number | null;
+  rule: LintRule;
+  severity: "error" | "warn";
+  message: string;
+};
+
+export type LintInput = {
+  migration: string;
+  up: string;
+  down: string;
+  upFile: string;
+  downFile: string;
+};
+
+const DEFAULT_RULES: Record<LintRule, LintSeverity> = {
+  "empty-migration": "error",
+  "drop-without-recreate": "error",
+  "add-column-not-null": "error",
+  "missing-if-exists": "warn",
+  "non-deterministic-default": "warn",
+};
+
+// `create` writes these until the migration is filled in
+const PLACEHOLDER = /^--\s*(Up|Down) migration for .*$/;
+
+const NAME = String.raw`(?:(?:"[^"]+"|\`[^\`]+\`|\[[^\]]+\]|\w+)\.)?("[^"]+"|\`[^\`]+\`|\[[^\]]+\]|\w+)`;
+const DROP = new RegExp(
+  String.raw`^DROP\s+(TABLE|INDEX|VIEW|TRIGGER)\s+(IF\s+EXISTS\s+)?${NAME}`,
+  "i",
+);
+const DROP_COLUMN = new RegExp(
+  String.raw`^ALTER\s+TABLE\s+${NAME}\s+DROP\s+(?:COLUMN\s+)?${NAME}`,
+  "i",
+);
+const ADD_COLUMN = new RegExp(
+  String.raw`^ALTER\s+TABLE\s+${NAME}\s+ADD\s+(?:COLUMN\s+)?${NAME}([\s\S]*)$`,
+  "i",
+);
+const CREATE_TABLE = new RegExp(
+  String.raw`^CREATE\s+(?:TEMP\w*\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?${NAME}`,
+  "i",
+);
+const RENAME_TABLE = new RegExp(
+  String.raw`^ALTER\s+TABLE\s+${NAME}\s+RENAME\s+TO\s+${NAME}`,
+  "i",
+);
+const NON_DETERMINISTIC =
+  /\bDEFAULT\s+(CURRENT_(TIMESTAMP|DATE|TIME)\b|\(.*\b(random|randomblob)\s*\(|\(.*'now')/i;
+
+/**
+ * Check a migration's SQL for operations that lose data, can't be rolled
+ * back or behave differently between databases. Module migrations can't be
+ * checked.
+ *
+ * Silence a rule for the next statement with a
+ * `-- migralite-lint-disable <rule>` comment, or for the whole file with
+ * `-- migralite-lint-disable-file <rule>`. Leave out the rule to silence
+ * every rule.
+ */
+export function lintMigration(
+  input: LintInput,
+  rules: LintRules = {},
+): LintIssue[] {
+  for (let rule of Object.keys(rules)) {
+    if (!Object.hasOwn(DEFAULT_RULES, rule)) {
+      throw new Error(
+        `Unknown lint rule "${rule}", expected one of ${Object.keys(DEFAULT_RULES).join(", ")}`,
+      );
+    }
+  }
+  let severities = { ...DEFAULT_RULES, ...rules };
+
+  let issues: LintIssue[] = [];
+  let up = readFile(input.up);
+  let down = readFile(input.down);
+
+  let report = (
+    file: "up" | "down",
+    statement: Statement | null,
+    rule: LintRule,
+    message: string,
+  ) => {
+    let severity = severities[rule];
+    let parsed = file === "up" ? up : down;
+    if (severity === "off" || parsed.disabled(rule, statement)) return;
+    issues.push({
+      migration: input.migration,
+      file: file === "up" ? input.upFile : input.downFile,
+      line: statement?.line ?? null,
+      rule,
+      severity,
+      message,
+    });
+  };
+
+  for (let [file, parsed] of [
+    ["up", up],
+    ["down", down],
+  ] as const) {
+    if (parsed.statements.length === 0) {
+      report(
+        file,
+        null,
+        "empty-migration",
+        parsed.placeholder
+          ? `The ${file} migration is still the placeholder \`create\` wrote`
+          : `The ${file} migration is empty`,
+      );
+    }
+
+    for (let statement of parsed.statements) {
+      let sql = stripComments(statement.sql);
+
+      let drop = sql.match(DROP);
+      if (drop && !drop[2]) {
+        report(
+          file,
+          statement,
+          "missing-if-exists",
+          `DROP ${drop[1].toUpperCase()} ${drop[3]} without IF EXISTS`,
+        );
+      }
+
+      let add = sql.match(ADD_COLUMN);
+      if (
+        add &&
+        /\bNOT\s+NULL\b/i.test(add[3]) &&
+        !/\bDEFAULT\b/i.test(add[3])
+      ) {
+        report(
+          file,
+          statement,
+          "add-column-not-null",
+          `Adding NOT NULL column ${add[2]} without a default always fails, SQLite requires a default`,
+        );
+      }
+
+      if (
+        (add || CREATE_TABLE.test(sql)) &&
+        NON_DETERMINISTIC.test(add ? add[3] : sql)
+      ) {
+        report(
+          file,
+          statement,
+          "non-deterministic-default",
+          "Default values from the clock or random() differ between databases",
+        );
+      }
+    }
+  }
+
+  for (let [i, statement] of up.statements.entries()) {
+    let sql = stripComments(statement.sql);
+    let later = up.statements.slice(i + 1).map(s => stripComments(s.sql));
+    let drop = sql.match(DROP);
+
+    if (drop && drop[1].toUpperCase() === "TABLE") {
+      let table = unquote(drop[3]);
+      // rebuilding a table renames a new one into its place
+      let replaced = later.some(
+        s => unquote(s.match(RENAME_TABLE)?.[2]) === table,
+      );
+      if (!replaced && !recreatesTable(down.statements, table)) {
+        report(
+          "up",
+          statement,
+          "drop-without-recreate",
+          `DROP TABLE ${drop[3]} loses its data, and the down migration doesn't recreate it`,
+        );
+      }
+    }
+
+    let dropColumn = sql.match(DROP_COLUMN);
+    if (dropColumn) {
+      let table = unquote(dropColumn[1]);
+      let column = unquote(dropColumn[2]);
+      let restored =
+        recreatesTable(down.statements, table) ||
+        down.statements.some(s => {
+          let add = stripComments(s.sql).match(ADD_COLUMN);
+          return unquote(add?.[1]) === table && unquote(add?.[2]) === column;
+        });
+      if (!restored) {
+        report(
+          "up",
+          statement,
+          "drop-without-recreate",
+          `DROP COLUMN ${dropColumn[2]} loses its data, and the down migration doesn't add it back`,
+        );
+      }
+    }
+  }
+
+  return issues;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+function readFile(sql: string) {
+  let lines = sql.split("\n");
+  let statements = splitStatements(sql);
+  let disabledInFile = disabledRules(
+    lines,
+    /^--\s*migralite-lint-disable-file\b(.*)$/,
+  );
+
+  return {
+    statements,
+    placeholder:
+      statements.length === 0 &&
+      lines.some(line => PLACEHOLDER.test(line.trim())),
+    disabled(rule: LintRule, statement: Statement | null) {
+      if (disabledInFile.has(rule) || disabledInFile.has("*")) return true;
+      if (!statement) return false;
+
+      // the comments right above the statement
+      let above: string[] = [];
+      for (let i = statement.line - 2; i >= 0; i--) {
+        let line = lines[i].trim();
+        if (!line.startsWith("--")) break;
+        above.push(line);
+      }
+      let disabled = disabledRules(
+        above,
+        /^--\s*migralite-lint-disable\b(?!-file)(.*)$/,
+      );
+      return disabled.has(rule) || disabled.has("*");
+    },
+  };
+}
+
+function disabledRules(lines: string[], pattern: RegExp) {
+  let rules = new Set<string>();
+  for (let line of lines) {
+    let match = line.trim().match(pattern);
+    if (!match) continue;
+    let listed = match[1].split(/[\s,]+/).filter(Boolean);
+    if (listed.length === 0) rules.add("*");
+    listed.forEach(rule => rules.add(rule));
+  }
+  return rules;
+}
+
+function recreatesTable(statements: Statement[], table: string) {
+  return statements.some(statement => {
+    let sql = stripComments(statement.sql);
+    return (
+      unquote(sql.match(CREATE_TABLE)?.[1]) === table ||
+      unquote(sql.match(RENAME_TABLE)?.[2]) === table
+    );
+  });
+}
+
+function stripComments(sql: string) {
+  return sql
+    .replace(/--[^\n]*/g, "")
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .trim();
+}
+
+function unquote(name = "") {
+  return (/^["`[]/.test(name) ? name.slice(1, -1) : name).toLowerCase();
+}
@@ -0,0 +1,121 @@
+import assert from "node:assert";
+import { test, describe } from "node:test";
+import os from "node:os";
+import fs from "node:fs/promises";
+import path from "node:path";
+import Database from "better-sqlite3";
+import {
+  acquireLock,
+  forceUnlock,
+  readLock,
+  refreshLock,
+  releaseLock,
+} from "./lock.ts";
+
+function holdLock(db: Database.Database, lock: Record<string, unknown>) {
+  readLock(db); // creates the table
+  db.prepare(
+    "INSERT INTO _migralite_lock (id, owner, pid, token, acquired_at, expires_at) VALUES (1, @owner, @pid, 'other', '', @expires_at)",
+  ).run({
+    owner: "other-host",
+    pid: 1,
+    expires_at: Date.now() + 60_000,
+    ...lock,
+  });
+}
+
+describe("acquireLock", () => {
+  test("takes a free lock and releases it", async () => {
+    let db = new Database(":memory:");
+
+    let token = await acquireLock(db);
+    let lock = readLock(db);
+    assert.equal(lock?.token, token);
+    assert.equal(lock?.pid, process.pid);
+    assert.equal(lock?.owner, os.hostname());
+
+    releaseLock(db, token);
+    assert.equal(readLock(db), null);
+  });
+
+  test("times out while another process holds the lock", async () => {
+    let db = new Database(":memory:");
+    holdLock(db, {});
+
+    await assert.rejects(
+      acquireLock(db, { timeout: 50 }),
+      /Timed out after 50ms waiting for the migration lock held by other-host \(pid 1\)/,
+    );
+  });
+
+  test("waits for the lock to be released", async () => {
+    let db = new Database(":memory:");
+    let first = await acquireLock(db);
+    setTimeout(() => releaseLock(db, first), 50);
+
+    let second = await acquireLock(db, { timeout: 1000 });
+    assert.equal(readLock(db)?.token, second);
+  });
+
+  test("waits out another connection's write transaction", async () => {
+    let dir = await fs.mkdtemp(path.join(os.tmpdir(), "migralite-lock-"));
+    let file = path.join(dir, "db.sqlite");
+    let writer = new Database(file);
+    // a short busy timeout, so the wait has to outlast it
+    let db = new Database(file, { timeout: 20 });
+    try {
+      readLock(writer);
+      writer.exec("BEGIN IMMEDIATE");
+      setTimeout(() => writer.exec("COMMIT"), 200);
+
+      let token = await acquireLock(db, { timeout: 2000 });
+      assert.equal(readLock(db)?.token, token);
+
+      writer.exec("BEGIN IMMEDIATE");
+      await assert.rejects(
+        acquireLock(db, { timeout: 50 }),
+        /Timed out after 50ms waiting for the migration lock, another connection kept the database busy/,
+      );
+      writer.exec("ROLLBACK");
+    } finally {
+      writer.close();
+      db.close();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("takes over expired locks", async () => {
+    let db = new Database(":memory:");
+    holdLock(db, { expires_at: Date.now() - 1 });
+
+    let token = await acquireLock(db, { timeout: 0 });
+    assert.equal(readLock(db)?.token, token);
+  });
+
+  test("takes over locks from dead processes on this host", async () => {
+    let db = new Database(":memory:");
+    // pids are well below this on linux and macOS
+    holdLock(db, { owner: os.hostname(), pid: 2 ** 30 });
+
+    let token = await acquireLock(db, { timeout: 0 });
+    assert.equal(readLock(db)?.token, token);
+  });
+});
+
+test("refreshLock extends the expiry", async () => {
+  let db = new Database(":memory:");
+  let token = await acquireLock(db, { ttl: 10 });
+  let before = readLock(db)!.expires_at;
+
+  refreshLock(db, token, { ttl: 60_000 });
+  assert.ok(readLock(db)!.expires_at > before);
+});
+
+test("forceUnlock removes any lock", () => {
+  let db = new Database(":memory:");
+  holdLock(db, {});
+
+  let removed = forceUnlock(db);
+  assert.equal(removed?.owner, "other-host");
+  assert.equal(readLock(db), null);
+});
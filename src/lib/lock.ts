@@ -0,0 +1,156 @@
+import os from "os";
+import crypto from "crypto";
+import { type Database } from "better-sqlite3";
+
+export type MigrationLock = {
+  owner: string;
+  pid: number;
+  token: string;
+  acquired_at: string;
+  /** Epoch milliseconds after which another process may take the lock */
+  expires_at: number;
+};
+
+export type LockOptions = {
+  /** Lock table name, defaults to `_migralite_lock` */
+  table?: string;
+  /** How long to wait for another process to release the lock */
+  timeout?: number;
+  /** How long the lock is held before it's considered stale */
+  ttl?: number;
+};
+
+const RETRY_INTERVAL = 100;
+// another connection's write transaction outlasted the busy timeout
+const BUSY = "busy";
+const DEFAULT_TTL = 10 * 60_000;
+
+/**
+ * Take the migration lock, waiting up to `timeout` for another process to
+ * release it or finish its write transaction. Locks that expired or belong to a dead process on this host are
+ * taken over. Returns the token to release the lock with.
+ */
+export async function acquireLock(db: Database, options: LockOptions = {}) {
+  let { timeout = 10_000 } = options;
+  let table = initLock(db, options.table);
+  let token = crypto.randomUUID();
+  let deadline = Date.now() + timeout;
+
+  while (true) {
+    let holder = tryLock(db, table, token, options.ttl);
+    if (!holder) return token;
+
+    if (Date.now() >= deadline) {
+      throw new Error(
+        holder === BUSY
+          ? `Timed out after ${timeout}ms waiting for the migration lock, another connection kept the database busy`
+          : `Timed out after ${timeout}ms waiting for the migration lock held by ${holder.owner} (pid ${holder.pid}), run \`migralite unlock\` if that process crashed`,
+      );
+    }
+    await new Promise(resolve => setTimeout(resolve, RETRY_INTERVAL));
+  }
+}
+
+/**
+ * Push back the expiry of a lock this process holds
+ */
+export function refreshLock(
+  db: Database,
+  token: string,
+  options: LockOptions = {},
+) {
+  let table = initLock(db, options.table);
+  db.prepare(`UPDATE ${table} SET expires_at = ? WHERE token = ?`).run(
+    Date.now() + (options.ttl ?? DEFAULT_TTL),
+    token,
+  );
+}
+
+export function releaseLock(
+  db: Database,
+  token: string,
+  options: LockOptions = {},
+) {
+  let table = initLock(db, options.table);
+  db.prepare(`DELETE FROM ${table} WHERE token = ?`).run(token);
+}
+
+export function readLock(db: Database, options: LockOptions = {}) {
+  let table = initLock(db, options.table);
+  let row = db.prepare(`SELECT * FROM ${table} WHERE id = 1`).get();
+  return (row as MigrationLock | undefined) ?? null;
+}
+
+/**
+ * Remove the lock no matter who holds it, for recovering from crashed runs
+ */
+export function forceUnlock(db: Database, options: LockOptions = {}) {
+  let lock = readLock(db, options);
+  db.prepare(`DELETE FROM ${options.table ?? "_migralite_lock"}`).run();
+  return lock;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+function initLock(db: Database, table = "_migralite_lock") {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${table} (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      owner TEXT NOT NULL,
+      pid INTEGER NOT NULL,
+      token TEXT NOT NULL,
+      acquired_at TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    )
+  `);
+  return table;
+}
+
+function tryLock(
+  db: Database,
+  table: string,
+  token: string,
+  ttl = DEFAULT_TTL,
+): MigrationLock | typeof BUSY | null {
+  let lock = db.transaction(() => {
+    let holder = db.prepare(`SELECT * FROM ${table} WHERE id = 1`).get() as
+      | MigrationLock
+      | undefined;
+
+    if (holder && !isStale(holder)) {
+      return holder;
+    }
+
+    let now = Date.now();
+    db.prepare(
+      `INSERT OR REPLACE INTO ${table} (id, owner, pid, token, acquired_at, expires_at) VALUES (1, ?, ?, ?, ?, ?)`,
+    ).run(
+      os.hostname(),
+      process.pid,
+      token,
+      new Date(now).toISOString(),
+      now + ttl,
+    );
+    return null;
+  });
+
+  try {
+    return lock.immediate();
+  } catch (error) {
+    if ((error as { code?: string }).code === "SQLITE_BUSY") return BUSY;
+    throw error;
+  }
+}
+
+function isStale(lock: MigrationLock) {
+  if (lock.expires_at <= Date.now()) return true;
+  if (lock.owner !== os.hostname() || lock.pid === process.pid) return false;
+
+  try {
+    // signal 0 only checks that the process exists
+    process.kill(lock.pid, 0);
+    return false;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "ESRCH";
+  }
+}
@@ -3,7 +3,8 @@ import { afterEach, test, describe } from "node:test";
 import fs from "node:fs/promises";
 import path from "node:path";
 import Database from "better-sqlite3";
-import { Migrator } from "./migrate.ts";
+import { MigrationError, Migrator, MigratorSync } from "./migrate.ts";
+import { Seeder } from "./seed.ts";
 
 const TEST_DIR = await fs.mkdtemp("test");
 
@@ -56,6 +57,45 @@ describe("create", () => {
   });
 });
 
+describe("generate", () => {
+  test("generates a migration from the desired schema", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER PRIMARY KEY)",
+        "DROP TABLE users",
+      ),
+    );
+    await assert.rejects(
+      migrator.generate("add posts", ""),
+      /Apply pending migrations before generating a new one: 01-add-users/,
+    );
+    await migrator.up();
+
+    let schemaSql = [
+      "CREATE TABLE users (id INTEGER PRIMARY KEY);",
+      "CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT);",
+      "INSERT INTO _migralite (id, name, checksum) VALUES ('01', '01-add-users', '');",
+    ].join("\n");
+    let migration = await migrator.generate("add posts", schemaSql);
+    assert.match(migration.name, /^\d{14}-add-posts$/);
+    assert.equal(
+      await fs.readFile(path.join(TEST_DIR, migration.down), "utf8"),
+      '-- Generated by migralite, review before applying\nDROP TABLE "posts";\n',
+    );
+
+    await migrator.up();
+    db.prepare("INSERT INTO posts (title) VALUES ('hello')").run();
+    await assert.rejects(
+      migrator.generate("again", schemaSql),
+      /The database already matches the desired schema/,
+    );
+  });
+});
+
 describe("up", () => {
   test("supports multiple statements", async () => {
     let db = new Database(":memory:");
@@ -358,27 +398,1866 @@ describe("rollback", () => {
     let tables = db.prepare(q).all();
     assert.deepEqual(tables, [{ name: "_migralite" }]);
   });
+
+  test("rolls back to a migration", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    for (let [ts, table] of [
+      ["01", "users"],
+      ["02", "posts"],
+      ["03", "tags"],
+    ]) {
+      await stubTimestamp(ts, () =>
+        migrator.create(
+          `add ${table}`,
+          `CREATE TABLE ${table} (id INTEGER)`,
+          `DROP TABLE ${table}`,
+        ),
+      );
+    }
+    await migrator.up();
+
+    let rolledBack = await migrator.rollback({ to: "01" });
+    assert.deepEqual(rolledBack, ["03-add-tags", "02-add-posts"]);
+
+    let q = "SELECT name FROM sqlite_master WHERE type='table' ORDER BY name";
+    assert.deepEqual(db.prepare(q).all(), [
+      { name: "_migralite" },
+      { name: "users" },
+    ]);
+
+    await assert.rejects(
+      migrator.rollback({ to: "02" }),
+      /Migration 02 is not applied/,
+    );
+  });
 });
 
-test("dry doesn't write to the db", async () => {
-  let db = new Database(":memory:");
-  let migrator = new Migrator(db, TEST_DIR, { dry: true });
+describe("down", () => {
+  test("rolls back one migration out of order", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
 
-  let a = await stubTimestamp("01", () => {
-    let upSql = "CREATE TABLE users (id INTEGER, name TEXT);";
-    let downSql = "DROP TABLE users;";
-    return migrator.create("add users", upSql, downSql);
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER)",
+        "DROP TABLE users",
+      ),
+    );
+    let b = await stubTimestamp("02", () =>
+      migrator.create(
+        "add posts",
+        "CREATE TABLE posts (id INTEGER)",
+        "DROP TABLE posts",
+      ),
+    );
+    await migrator.up();
+
+    assert.deepEqual(await migrator.down("01-add"), ["01-add-users"]);
+
+    let applied = await migrator.getAppliedMigrations();
+    assert.deepEqual(
+      applied.map(entry => entry.id),
+      ["02"],
+    );
+    assert.deepEqual(await migrator.getPendingMigrations(), ["01-add-users"]);
+
+    await assert.rejects(migrator.down("01"), /Migration 01 is not applied/);
+    assert.deepEqual(await migrator.down("02"), [b.name]);
   });
+});
 
-  let migrated = await migrator.up();
+describe("redo", () => {
+  test("rolls back and reapplies the latest migration", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
 
-  // returns the migration that would have been run
-  assert.deepEqual(migrated, [a.name]);
+    let a = await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER)",
+        "DROP TABLE users",
+      ),
+    );
+    await migrator.up();
+
+    // picks up edits made while developing the migration
+    await fs.writeFile(
+      path.join(TEST_DIR, a.up),
+      "CREATE TABLE users (id INTEGER, name TEXT)",
+    );
+    let directions: string[] = [];
+    migrator.on("runComplete", e => directions.push(e.direction));
+
+    assert.deepEqual(await migrator.redo(), [a.name]);
+    assert.deepEqual(directions, ["down", "up"]);
+
+    let columns = db.pragma("table_info(users)") as { name: string }[];
+    assert.deepEqual(
+      columns.map(c => c.name),
+      ["id", "name"],
+    );
+    assert.deepEqual(await migrator.verify(), []);
+  });
+
+  test("nothing applied has nothing to redo", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+    assert.deepEqual(await migrator.redo(), []);
+  });
+});
+
+test("records migrations in a custom table", async () => {
+  let db = new Database(":memory:");
+  let migrator = new Migrator(db, TEST_DIR, {
+    dry: false,
+    table: "migrations",
+  });
+
+  let a = await stubTimestamp("01", () =>
+    migrator.create(
+      "add users",
+      "CREATE TABLE users (id INTEGER)",
+      "DROP TABLE users",
+    ),
+  );
+  await migrator.up();
 
   let q = "SELECT name FROM sqlite_master WHERE type='table' ORDER BY name";
-  let tables = db.prepare(q).all();
-  // doesn't write to the db
-  assert.deepEqual(tables, [{ name: "_migralite" }]);
+  assert.deepEqual(db.prepare(q).all(), [
+    { name: "migrations" },
+    { name: "users" },
+  ]);
+  assert.deepEqual(db.prepare("SELECT id FROM migrations").all(), [
+    { id: "01" },
+  ]);
+
+  assert.deepEqual(await migrator.rollback(), [a.name]);
+  assert.throws(
+    () => new Migrator(db, TEST_DIR, { dry: false, table: "bad name" }),
+    /Invalid migrations table name/,
+  );
+});
+
+describe("migration settings", () => {
+  test("no-transaction runs statements SQLite refuses in a transaction", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "-- migralite: no-transaction\nCREATE TABLE users (id INTEGER);\nVACUUM;",
+        "DROP TABLE users",
+      ),
+    );
+    await migrator.up();
+    assert.equal((await migrator.getAppliedMigrations()).length, 1);
+
+    await stubTimestamp("02", () =>
+      migrator.create("bad", "-- migralite: no-transactions\nSELECT 1", ""),
+    );
+    await assert.rejects(
+      migrator.up(),
+      /Unknown directive "no-transactions" in .*\+\.sql, expected one of no-transaction, foreign-keys-off/,
+    );
+  });
+
+  test("foreign-keys-off allows rebuilding referenced tables", async () => {
+    let db = new Database(":memory:");
+    db.pragma("foreign_keys = ON");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+      CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users ON DELETE CASCADE);
+      INSERT INTO users VALUES (1, 'ada');
+      INSERT INTO posts VALUES (1, 1);
+    `);
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await migrator.create(
+      "rebuild users",
+      `-- migralite: foreign-keys-off
+      CREATE TABLE new_users (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+      INSERT INTO new_users SELECT * FROM users;
+      DROP TABLE users;
+      ALTER TABLE new_users RENAME TO users;`,
+      "SELECT 1",
+    );
+
+    let dry = await migrator.dryRun("up");
+    assert.ok(dry[0].ok);
+    assert.equal(db.pragma("foreign_keys", { simple: true }), 1);
+
+    await migrator.up();
+    assert.deepEqual(db.prepare("SELECT * FROM posts").all(), [
+      { id: 1, user_id: 1 },
+    ]);
+    assert.equal(db.pragma("foreign_keys", { simple: true }), 1);
+  });
+
+  test("foreign-keys-off rolls back when the foreign key check fails", async () => {
+    let db = new Database(":memory:");
+    db.pragma("foreign_keys = ON");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY);
+      CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users);
+    `);
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await migrator.create(
+      "orphan posts",
+      "-- migralite: foreign-keys-off\nINSERT INTO posts VALUES (1, 42);",
+      "DELETE FROM posts",
+    );
+    await assert.rejects(
+      migrator.up(),
+      /Foreign key check failed with 1 violation\(s\), first in posts \(rowid 1\) referencing users/,
+    );
+    assert.deepEqual(db.prepare("SELECT * FROM posts").all(), []);
+    assert.deepEqual(await migrator.getAppliedMigrations(), []);
+    assert.equal(db.pragma("foreign_keys", { simple: true }), 1);
+  });
+});
+
+describe("reapplyLatest", () => {
+  test("rolls back the applied version and applies the edited one", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER)",
+        "DROP TABLE users",
+      ),
+    );
+    let b = await stubTimestamp("02", () =>
+      migrator.create(
+        "add posts",
+        "CREATE TABLE posts (id INTEGER)",
+        "DROP TABLE posts",
+      ),
+    );
+
+    assert.deepEqual(await migrator.reapplyLatest(), {
+      migration: "02-add-posts",
+      action: "applied",
+    });
+    assert.deepEqual(await migrator.reapplyLatest(), {
+      migration: "02-add-posts",
+      action: "unchanged",
+    });
+
+    // the old down SQL drops posts, the new one wouldn't find it
+    await fs.writeFile(
+      path.join(TEST_DIR, b.up),
+      "CREATE TABLE articles (id INTEGER)",
+    );
+    await fs.writeFile(path.join(TEST_DIR, b.down), "DROP TABLE articles");
+    assert.deepEqual(await migrator.reapplyLatest(), {
+      migration: "02-add-posts",
+      action: "reapplied",
+    });
+    let q = "SELECT name FROM sqlite_master WHERE type='table' ORDER BY name";
+    let tables = ["_migralite", "articles", "users"];
+    assert.deepEqual(db.prepare(q).pluck().all(), tables);
+    assert.deepEqual(await migrator.verify(), []);
+
+    // a failing new version leaves the old one applied
+    await fs.writeFile(path.join(TEST_DIR, b.up), "CREATE TABLE nope (");
+    await assert.rejects(
+      migrator.reapplyLatest(),
+      /Migration 02-add-posts failed \(up\)/,
+    );
+    assert.deepEqual(db.prepare(q).pluck().all(), tables);
+
+    await fs.writeFile(
+      path.join(TEST_DIR, a.up),
+      "CREATE TABLE people (id INTEGER)",
+    );
+    await assert.rejects(
+      migrator.reapplyLatest(),
+      /Only the latest migration can be reapplied, 01-add-users changed after being applied/,
+    );
+  });
+
+  test("turns foreign keys off for table rebuilds", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER PRIMARY KEY); CREATE TABLE posts (user_id INTEGER REFERENCES users ON DELETE CASCADE);",
+        "DROP TABLE posts; DROP TABLE users;",
+      ),
+    );
+    let rebuild = (columns: string) =>
+      `-- migralite: foreign-keys-off\nCREATE TABLE new_users (${columns}); INSERT INTO new_users (id) SELECT id FROM users; DROP TABLE users; ALTER TABLE new_users RENAME TO users;`;
+    let b = await stubTimestamp("02", () =>
+      migrator.create(
+        "rebuild users",
+        rebuild("id INTEGER PRIMARY KEY, name TEXT"),
+        rebuild("id INTEGER PRIMARY KEY"),
+      ),
+    );
+    await migrator.up();
+    db.exec("INSERT INTO users (id) VALUES (1); INSERT INTO posts VALUES (1)");
+
+    await fs.writeFile(
+      path.join(TEST_DIR, b.up),
+      rebuild("id INTEGER PRIMARY KEY, email TEXT"),
+    );
+    assert.deepEqual(await migrator.reapplyLatest(), {
+      migration: "02-rebuild-users",
+      action: "reapplied",
+    });
+    assert.deepEqual(db.prepare("SELECT * FROM posts").all(), [{ user_id: 1 }]);
+    assert.equal(db.pragma("foreign_keys", { simple: true }), 1);
+
+    // references the new version breaks roll it back
+    await fs.writeFile(
+      path.join(TEST_DIR, b.up),
+      `${rebuild("id INTEGER PRIMARY KEY")} DELETE FROM users;`,
+    );
+    await assert.rejects(migrator.reapplyLatest(), /Foreign key check failed/);
+    assert.deepEqual(db.prepare("SELECT id FROM users").all(), [{ id: 1 }]);
+
+    await fs.writeFile(
+      path.join(TEST_DIR, b.up),
+      "-- migralite: no-transaction",
+    );
+    await assert.rejects(
+      migrator.reapplyLatest(),
+      /Migration 02-rebuild-users runs with no-transaction/,
+    );
+  });
+});
+
+describe("attached databases", () => {
+  test("migrates each schema with its own migrations", async () => {
+    let db = new Database(":memory:");
+    db.exec("ATTACH ':memory:' AS analytics");
+    let main = new Migrator(db, path.join(TEST_DIR, "main"));
+    let analytics = new Migrator(db, path.join(TEST_DIR, "analytics"), {
+      dry: false,
+      schema: "analytics",
+    });
+
+    await stubTimestamp("01", () =>
+      main.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER)",
+        "DROP TABLE users",
+      ),
+    );
+    let b = await stubTimestamp("02", () =>
+      analytics.create(
+        "add events",
+        "CREATE TABLE analytics.events (id INTEGER); CREATE INDEX analytics.events_id ON events (id)",
+        "DROP TABLE analytics.events",
+      ),
+    );
+
+    assert.deepEqual(await analytics.up(), [b.name]);
+
+    let q = (schema: string) =>
+      db
+        .prepare(
+          `SELECT name FROM ${schema}.sqlite_master WHERE type='table' ORDER BY name`,
+        )
+        .all();
+    assert.deepEqual(q("main"), [{ name: "_migralite" }]);
+    assert.deepEqual(q("analytics"), [
+      { name: "_migralite" },
+      { name: "events" },
+    ]);
+    assert.deepEqual(
+      (await analytics.status()).map(s => [s.migration, s.state]),
+      [[b.name, "applied"]],
+    );
+    assert.equal((await main.getPendingMigrations()).length, 1);
+
+    await analytics.rollback();
+    assert.deepEqual(q("analytics"), [{ name: "_migralite" }]);
+  });
+
+  test("round trips run against a copy of the attached database", async () => {
+    let db = new Database(":memory:");
+    db.exec("ATTACH ':memory:' AS analytics");
+    let migrator = new Migrator(db, TEST_DIR, {
+      dry: false,
+      schema: "analytics",
+    });
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create(
+        "add events",
+        "CREATE TABLE analytics.events (id INTEGER)",
+        "-- forgot to drop events",
+      ),
+    );
+
+    let results = await migrator.testRoundTrip();
+    assert.deepEqual(
+      results.map(r => [r.migration, r.ok, r.diff?.added.map(o => o.name)]),
+      [[a.name, false, ["events"]]],
+    );
+    assert.deepEqual(await migrator.getPendingMigrations(), [a.name]);
+  });
+});
+
+describe("migration modules", () => {
+  test("runs up and down functions", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, data TEXT, email TEXT)",
+        "DROP TABLE users",
+      ),
+    );
+    await migrator.up();
+    db.prepare("INSERT INTO users (id, data) VALUES (?, ?)").run(
+      1,
+      JSON.stringify({ email: "a@example.com" }),
+    );
+
+    let b = await stubTimestamp("02", () =>
+      migrator.createModule(
+        "backfill emails",
+        `
+          export function up(db) {
+            let rows = db.prepare("SELECT id, data FROM users").all();
+            let update = db.prepare("UPDATE users SET email = ? WHERE id = ?");
+            for (let row of rows) update.run(JSON.parse(row.data).email, row.id);
+          }
+
+          export function down(db) {
+            db.exec("UPDATE users SET email = NULL");
+          }
+        `,
+      ),
+    );
+
+    assert.deepEqual(b, {
+      name: "02-backfill-emails",
+      file: "02-backfill-emails/migration.js",
+    });
+
+    let migrated = await migrator.up();
+    assert.deepEqual(migrated, [b.name]);
+
+    let q = "SELECT email FROM users";
+    assert.deepEqual(db.prepare(q).all(), [{ email: "a@example.com" }]);
+
+    let applied = await migrator.getAppliedMigrations();
+    assert.equal(applied[1].name, b.file);
+    assert.deepEqual(await migrator.verify(), []);
+
+    await migrator.rollback();
+    assert.deepEqual(db.prepare(q).all(), [{ email: null }]);
+  });
+
+  test("supports typescript modules", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await stubTimestamp("01", () =>
+      migrator.createModule(
+        "add settings",
+        `
+          import type { Database } from "better-sqlite3";
+
+          export function up(db: Database) {
+            db.exec("CREATE TABLE settings (key TEXT, value TEXT)");
+          }
+
+          export function down(db: Database) {
+            db.exec("DROP TABLE settings");
+          }
+        `,
+        "ts",
+      ),
+    );
+
+    await migrator.up();
+
+    let q = "SELECT name FROM sqlite_master WHERE type='table' ORDER BY name";
+    let tables = db.prepare(q).all();
+    assert.deepEqual(tables, [{ name: "_migralite" }, { name: "settings" }]);
+  });
+
+  test("rejects async functions and rolls back", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await stubTimestamp("01", () =>
+      migrator.createModule(
+        "async users",
+        `
+          export async function up(db) {
+            db.exec("CREATE TABLE users (id INTEGER)");
+          }
+
+          export function down(db) {}
+        `,
+      ),
+    );
+
+    await assert.rejects(migrator.up(), /must be synchronous/);
+
+    let q = "SELECT name FROM sqlite_master WHERE type='table' ORDER BY name";
+    let tables = db.prepare(q).all();
+    assert.deepEqual(tables, [{ name: "_migralite" }]);
+    assert.deepEqual(await migrator.getAppliedMigrations(), []);
+  });
+});
+
+describe("lint", () => {
+  test("lints SQL migrations and skips modules", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER)",
+        "DROP TABLE users",
+      ),
+    );
+    await stubTimestamp("02", () =>
+      migrator.createModule(
+        "backfill",
+        "export function up(db) {}\nexport function down(db) {}\n",
+      ),
+    );
+
+    assert.deepEqual(await migrator.lint(), [
+      {
+        migration: "01-add-users",
+        file: path.join("01-add-users", "-.sql"),
+        line: 1,
+        rule: "missing-if-exists",
+        severity: "warn",
+        message: "DROP TABLE users without IF EXISTS",
+      },
+    ]);
+    assert.deepEqual(await migrator.lint({ "missing-if-exists": "off" }), []);
+  });
+});
+
+describe("verify", () => {
+  test("no drift when files are unchanged", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, name TEXT)",
+        "DROP TABLE users",
+      ),
+    );
+    await migrator.up();
+
+    assert.deepEqual(await migrator.verify(), []);
+  });
+
+  test("reports modified and missing migrations", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, name TEXT)",
+        "DROP TABLE users",
+      ),
+    );
+    let b = await stubTimestamp("02", () =>
+      migrator.create(
+        "add posts",
+        "CREATE TABLE posts (id INTEGER, title TEXT)",
+        "DROP TABLE posts",
+      ),
+    );
+    await migrator.up();
+
+    await fs.writeFile(
+      path.join(TEST_DIR, a.up),
+      "CREATE TABLE users (id INTEGER, email TEXT)",
+    );
+    await fs.rm(path.join(TEST_DIR, b.name), { recursive: true });
+
+    assert.deepEqual(await migrator.verify(), [
+      { id: "01", migration: a.name, kind: "modified" },
+      { id: "02", migration: b.name, kind: "missing" },
+    ]);
+  });
+
+  test("reports migrations applied without checksums as unknown", async () => {
+    let db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE _migralite (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      INSERT INTO _migralite (id, name) VALUES ('01', '01-add-users/+.sql');
+    `);
+    let migrator = new Migrator(db, TEST_DIR);
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create("add users", "CREATE TABLE users (id INTEGER)", ""),
+    );
+
+    assert.deepEqual(await migrator.verify(), [
+      { id: "01", migration: a.name, kind: "unknown" },
+    ]);
+
+    let verifying = new Migrator(db, TEST_DIR, { dry: false, verify: true });
+    await assert.rejects(
+      verifying.up(),
+      /01-add-users \(unknown\), run `migralite verify --record`/,
+    );
+    assert.deepEqual(await migrator.recordChecksums(), [a.name]);
+    assert.deepEqual(await migrator.recordChecksums(), []);
+    assert.deepEqual(await migrator.verify(), []);
+    assert.deepEqual(await verifying.up(), []);
+  });
+
+  test("up refuses to run with drift when verifying", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR, { dry: false, verify: true });
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, name TEXT)",
+        "DROP TABLE users",
+      ),
+    );
+    await migrator.up();
+    await fs.writeFile(path.join(TEST_DIR, a.down), "");
+
+    await stubTimestamp("02", () =>
+      migrator.create(
+        "add posts",
+        "CREATE TABLE posts (id INTEGER, title TEXT)",
+        "DROP TABLE posts",
+      ),
+    );
+
+    await assert.rejects(migrator.up(), /01-add-users \(modified\)/);
+    assert.deepEqual(await migrator.getPendingMigrations(), ["02-add-posts"]);
+  });
+});
+
+describe("out of order migrations", () => {
+  async function mergeOlderMigration(migrator: Migrator) {
+    await stubTimestamp("02", () =>
+      migrator.create(
+        "add posts",
+        "CREATE TABLE posts (id INTEGER)",
+        "DROP TABLE posts",
+      ),
+    );
+    await migrator.up();
+    return stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER)",
+        "DROP TABLE users",
+      ),
+    );
+  }
+
+  test("warn emits outOfOrder and applies them", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+    let a = await mergeOlderMigration(migrator);
+
+    let events: unknown[] = [];
+    migrator.on("outOfOrder", e => events.push(e));
+
+    assert.deepEqual(await migrator.up(), [a.name]);
+    assert.deepEqual(events, [
+      { migrations: [a.name], latest: "02-add-posts" },
+    ]);
+  });
+
+  test("error refuses to apply them", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR, {
+      dry: false,
+      outOfOrder: "error",
+    });
+    let a = await mergeOlderMigration(migrator);
+
+    await assert.rejects(
+      migrator.up(),
+      /older than the latest applied migration 02-add-posts: 01-add-users/,
+    );
+    assert.deepEqual(await migrator.getPendingMigrations(), [a.name]);
+  });
+
+  test("allow applies them silently", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR, {
+      dry: false,
+      outOfOrder: "allow",
+    });
+    let a = await mergeOlderMigration(migrator);
+
+    let events: unknown[] = [];
+    migrator.on("outOfOrder", e => events.push(e));
+
+    assert.deepEqual(await migrator.up(), [a.name]);
+    assert.deepEqual(events, []);
+  });
+
+  test("rebase moves a pending migration after the applied ones", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR, {
+      dry: false,
+      outOfOrder: "error",
+    });
+    let a = await mergeOlderMigration(migrator);
+
+    let { from, to } = await migrator.rebase("01");
+    assert.equal(from, a.name);
+    assert.match(to, /^\d{14}-add-users$/);
+    assert.deepEqual(await fs.readdir(path.join(TEST_DIR, to)), [
+      "+.sql",
+      "-.sql",
+    ]);
+
+    assert.deepEqual(await migrator.up(), [to]);
+    await assert.rejects(migrator.rebase("02"), /Pending migration 02/);
+  });
+});
+
+describe("squash", () => {
+  async function createMigrations(migrator: Migrator) {
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, name TEXT); INSERT INTO users VALUES (1, 'it''s me')",
+        "DROP TABLE users",
+      ),
+    );
+    await stubTimestamp("02", () =>
+      migrator.create(
+        "add users index",
+        "CREATE INDEX users_name ON users (name); CREATE VIEW names AS SELECT name FROM users",
+        "DROP VIEW names; DROP INDEX users_name",
+      ),
+    );
+    await stubTimestamp("03", () =>
+      migrator.create(
+        "add posts",
+        "CREATE TABLE posts (id INTEGER)",
+        "DROP TABLE posts",
+      ),
+    );
+  }
+
+  test("replaces migrations with a baseline of their schema and data", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+    await createMigrations(migrator);
+
+    let result = await migrator.squash("02");
+    assert.deepEqual(result, {
+      name: "02-baseline",
+      squashed: ["01-add-users", "02-add-users-index"],
+      archive: path.join(TEST_DIR, ".archive", "02-baseline"),
+    });
+    assert.deepEqual(await fs.readdir(result.archive), result.squashed);
+    assert.deepEqual(await migrator.getPendingMigrations(), [
+      "02-baseline",
+      "03-add-posts",
+    ]);
+
+    await migrator.up();
+    assert.deepEqual(db.prepare("SELECT * FROM names").all(), [
+      { name: "it's me" },
+    ]);
+    assert.deepEqual(await migrator.rollback(2), [
+      "03-add-posts",
+      "02-baseline",
+    ]);
+    let q = "SELECT name FROM sqlite_master ORDER BY name";
+    assert.deepEqual(db.prepare(q).all(), [
+      { name: "_migralite" },
+      { name: "sqlite_autoindex__migralite_1" },
+    ]);
+  });
+
+  test("baselines rows that reference other tables", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        `CREATE TABLE users (id INTEGER PRIMARY KEY);
+        CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users);
+        INSERT INTO users VALUES (1);
+        INSERT INTO posts VALUES (1, 1);`,
+        "DROP TABLE posts; DROP TABLE users;",
+      ),
+    );
+    await migrator.squash("01");
+
+    let fresh = new Database(":memory:");
+    let replay = new Migrator(fresh, TEST_DIR);
+    assert.deepEqual(await replay.up(), ["01-baseline"]);
+    assert.deepEqual(fresh.prepare("SELECT * FROM posts").all(), [
+      { id: 1, user_id: 1 },
+    ]);
+    assert.deepEqual(await replay.rollback(), ["01-baseline"]);
+    assert.equal(fresh.pragma("foreign_keys", { simple: true }), 1);
+  });
+
+  test("databases that applied the squashed migrations switch to the baseline", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+    await createMigrations(migrator);
+    await migrator.up("02");
+
+    await migrator.squash("02");
+
+    let reopened = new Migrator(db, TEST_DIR);
+    assert.deepEqual(
+      (await reopened.status()).map(s => [s.migration, s.state]),
+      [
+        ["02-baseline", "applied"],
+        ["03-add-posts", "pending"],
+      ],
+    );
+    assert.deepEqual(await reopened.verify(), []);
+    assert.deepEqual(await reopened.up(), ["03-add-posts"]);
+  });
+
+  test("applies the rest of the squashed migrations on up", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+    await createMigrations(migrator);
+    await migrator.up("01");
+
+    await migrator.squash("02");
+    let reopened = new Migrator(db, TEST_DIR);
+    for (let attempt of [1, 2]) {
+      await assert.rejects(
+        reopened.getAppliedMigrations(),
+        /Only 1 of the 2 migrations squashed into 02-baseline are applied, run `migralite up`/,
+        `attempt ${attempt}`,
+      );
+    }
+
+    assert.deepEqual(await reopened.up(), ["03-add-posts"]);
+    let applied = await reopened.getAppliedMigrations();
+    assert.deepEqual(
+      applied.map(e => e.name),
+      ["02-baseline/+.sql", "03-add-posts/+.sql"],
+    );
+    assert.deepEqual(db.prepare("SELECT name FROM names").all(), [
+      { name: "it's me" },
+    ]);
+  });
+
+  test("squashing a baseline again reconciles older databases", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+    await createMigrations(migrator);
+    await migrator.up();
+
+    await migrator.squash("02");
+    await migrator.squash("03");
+
+    let reopened = new Migrator(db, TEST_DIR);
+    let applied = await reopened.getAppliedMigrations();
+    assert.deepEqual(
+      applied.map(e => e.name),
+      ["03-baseline/+.sql"],
+    );
+    await assert.rejects(migrator.squash("03"), /already squashed/);
+  });
+});
+
+describe("plan", () => {
+  test("renders the SQL up would run and applies it later", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "-- users\nCREATE TABLE users (id INTEGER PRIMARY KEY);\nCREATE INDEX users_id ON users (id)",
+        "DROP TABLE users",
+      ),
+    );
+    await stubTimestamp("02", () =>
+      migrator.create(
+        "add posts",
+        "-- migralite: foreign-keys-off\nCREATE TABLE posts (id INTEGER)",
+        "DROP TABLE posts",
+      ),
+    );
+
+    let plan = await migrator.plan("up", "01");
+    assert.deepEqual(plan.migrations, ["01-add-users"]);
+    assert.match(
+      plan.sql,
+      /^-- migralite plan\n-- direction: up\n-- from: \w+\n-- migrations: 01-add-users\n\n-- 01-add-users \(up\)\nBEGIN;\nCREATE TABLE users \(id INTEGER PRIMARY KEY\);\nCREATE INDEX users_id ON users \(id\);\nINSERT INTO main._migralite .* VALUES \('01', '01-add-users\/\+\.sql', .*\);\nCOMMIT;\n$/,
+    );
+    assert.deepEqual(await migrator.getAppliedMigrations(), []);
+
+    plan = await migrator.plan("up");
+    assert.match(
+      plan.sql,
+      /PRAGMA foreign_keys = OFF;\nBEGIN;\nCREATE TABLE posts \(id INTEGER\);\nPRAGMA main\.foreign_key_check;/,
+    );
+    assert.deepEqual(await migrator.applyPlan(plan.sql), [
+      "01-add-users",
+      "02-add-posts",
+    ]);
+    assert.deepEqual(await migrator.getPendingMigrations(), []);
+    assert.deepEqual(await migrator.verify(), []);
+
+    let down = await migrator.plan("down", { to: "01" });
+    assert.match(
+      down.sql,
+      /DROP TABLE posts;\nDELETE FROM main\._migralite WHERE id = '02';/,
+    );
+  });
+
+  test("refuses plans made before the applied migrations changed", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER)",
+        "DROP TABLE users",
+      ),
+    );
+    let plan = await migrator.plan("up");
+    await migrator.up();
+
+    await assert.rejects(
+      migrator.applyPlan(plan.sql),
+      /The applied migrations changed since the plan was made/,
+    );
+    await assert.rejects(
+      migrator.applyPlan("CREATE TABLE users (id INTEGER)"),
+      /Not a migralite plan/,
+    );
+  });
+
+  test("rolls back the failing migration", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER)",
+        "DROP TABLE users",
+      ),
+    );
+    await stubTimestamp("02", () =>
+      migrator.create(
+        "bad",
+        "CREATE TABLE posts (id INTEGER);\nINSERT INTO nope VALUES (1)",
+        "",
+      ),
+    );
+
+    let plan = await migrator.plan("up");
+    await assert.rejects(migrator.applyPlan(plan.sql), /no such table: nope/);
+    assert.deepEqual(await migrator.getPendingMigrations(), ["02-bad"]);
+    assert.equal(
+      db
+        .prepare("SELECT count(*) FROM sqlite_master WHERE name = 'posts'")
+        .pluck()
+        .get(),
+      0,
+    );
+  });
+});
+
+describe("status", () => {
+  test("lists applied, pending and missing migrations", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create("add users", "CREATE TABLE users (id INTEGER)", ""),
+    );
+    let b = await stubTimestamp("02", () =>
+      migrator.create("add posts", "CREATE TABLE posts (id INTEGER)", ""),
+    );
+    await migrator.up();
+    await fs.rm(path.join(TEST_DIR, b.name), { recursive: true });
+
+    let c = await stubTimestamp("03", () =>
+      migrator.create("add tags", "CREATE TABLE tags (id INTEGER)", ""),
+    );
+
+    let status = await migrator.status();
+    assert.deepEqual(
+      status.map(s => [s.id, s.migration, s.state]),
+      [
+        ["01", a.name, "applied"],
+        ["02", b.name, "missing"],
+        ["03", c.name, "pending"],
+      ],
+    );
+    assert.equal(typeof status[0].applied_at, "string");
+    assert.equal(status[2].applied_at, null);
+  });
+
+  test("reports migrations applied out of order", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await stubTimestamp("02", () =>
+      migrator.create("add posts", "CREATE TABLE posts (id INTEGER)", ""),
+    );
+    await migrator.up();
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    await stubTimestamp("01", () =>
+      migrator.create("add users", "CREATE TABLE users (id INTEGER)", ""),
+    );
+    await migrator.up();
+
+    let status = await migrator.status();
+    assert.deepEqual(
+      status.map(s => [s.id, s.state]),
+      [
+        ["01", "applied-out-of-order"],
+        ["02", "applied"],
+      ],
+    );
+  });
+
+  test("reports pending migrations older than the latest applied one", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    await stubTimestamp("02", () =>
+      migrator.create("add posts", "CREATE TABLE posts (id INTEGER)", ""),
+    );
+    await migrator.up();
+    await stubTimestamp("01", () =>
+      migrator.create("add users", "CREATE TABLE users (id INTEGER)", ""),
+    );
+    await stubTimestamp("03", () =>
+      migrator.create("add tags", "CREATE TABLE tags (id INTEGER)", ""),
+    );
+
+    let status = await migrator.status();
+    assert.deepEqual(
+      status.map(s => [s.id, s.state]),
+      [
+        ["01", "pending-out-of-order"],
+        ["02", "applied"],
+        ["03", "pending"],
+      ],
+    );
+  });
+
+  test("no migrations", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+    assert.deepEqual(await migrator.status(), []);
+  });
+});
+
+describe("testRoundTrip", () => {
+  test("passes migrations whose down reverses up", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, name TEXT)",
+        "DROP TABLE users",
+      ),
+    );
+
+    let results = await migrator.testRoundTrip();
+    assert.deepEqual(
+      results.map(r => [r.migration, r.ok, r.error]),
+      [[a.name, true, null]],
+    );
+
+    // leaves the database untouched
+    let q = "SELECT name FROM sqlite_master WHERE type='table' ORDER BY name";
+    assert.deepEqual(db.prepare(q).all(), [{ name: "_migralite" }]);
+    assert.deepEqual(await migrator.getPendingMigrations(), [a.name]);
+  });
+
+  test("reports schema left behind by down", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, name TEXT); CREATE INDEX IF NOT EXISTS users_name ON users (name);",
+        "DROP INDEX users_name; DROP TABLE users",
+      ),
+    );
+    let b = await stubTimestamp("02", () =>
+      migrator.create(
+        "add posts",
+        "CREATE TABLE posts (id INTEGER); CREATE VIEW IF NOT EXISTS recent_posts AS SELECT * FROM posts;",
+        "DROP TABLE posts",
+      ),
+    );
+
+    let results = await migrator.testRoundTrip();
+    assert.deepEqual(
+      results.map(r => [r.migration, r.ok]),
+      [
+        [a.name, true],
+        [b.name, false],
+      ],
+    );
+    assert.deepEqual(
+      results[1].diff?.added.map(o => o.name),
+      ["recent_posts"],
+    );
+  });
+
+  test("passes generated migrations", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    db.exec(`
+      CREATE TABLE users (
+        id INTEGER,
+        name TEXT
+      );
+      CREATE TABLE posts (id INTEGER, title TEXT, body TEXT);
+    `);
+    // adds a column to users and rebuilds posts
+    let migration = await migrator.generate(
+      "change users and posts",
+      `CREATE TABLE users (
+        id INTEGER,
+        name TEXT,
+        email TEXT
+      );
+      CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT);`,
+    );
+
+    let results = await migrator.testRoundTrip();
+    assert.deepEqual(
+      results.map(r => [r.migration, r.ok, r.error]),
+      [[migration.name, true, null]],
+    );
+  });
+
+  test("stops at a migration that fails", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, name TEXT)",
+        "",
+      ),
+    );
+    await stubTimestamp("02", () =>
+      migrator.create(
+        "add posts",
+        "CREATE TABLE posts (id INTEGER)",
+        "DROP TABLE posts",
+      ),
+    );
+
+    let results = await migrator.testRoundTrip();
+    assert.equal(results.length, 1);
+    assert.equal(results[0].migration, a.name);
+    assert.equal(results[0].ok, false);
+    assert.match(String(results[0].error), /already exists/);
+  });
+});
+
+describe("backup", () => {
+  test("backs up file databases before applying migrations", async () => {
+    await fs.mkdir(TEST_DIR, { recursive: true });
+    let dbPath = path.join(TEST_DIR, "db.sqlite");
+    let backupDir = path.join(TEST_DIR, "backups");
+    let migrationsDir = path.join(TEST_DIR, "migrations");
+    let db = new Database(dbPath);
+    let migrator = new Migrator(db, migrationsDir, {
+      dry: false,
+      backup: true,
+      backupDir,
+      backupKeep: 1,
+    });
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, email TEXT)",
+        "DROP TABLE users",
+      ),
+    );
+    await migrator.up();
+    db.exec("INSERT INTO users VALUES (1, 'a@example.com')");
+
+    // dropping a column can't be recovered with -.sql
+    await stubTimestamp("02", () =>
+      migrator.create(
+        "drop email",
+        "ALTER TABLE users DROP COLUMN email",
+        "ALTER TABLE users ADD COLUMN email TEXT",
+      ),
+    );
+    await migrator.up();
+
+    let backups = await migrator.listBackups();
+    assert.equal(backups.length, 1);
+
+    await migrator.restore(backups[0].id);
+    assert.deepEqual(db.prepare("SELECT * FROM users").all(), [
+      { id: 1, email: "a@example.com" },
+    ]);
+    assert.deepEqual(
+      (await migrator.getAppliedMigrations()).map(m => m.id),
+      ["01"],
+    );
+    db.close();
+  });
+
+  test("leaves the migration lock out of backups", async () => {
+    await fs.mkdir(TEST_DIR, { recursive: true });
+    let db = new Database(path.join(TEST_DIR, "db.sqlite"));
+    let migrator = new Migrator(db, path.join(TEST_DIR, "migrations"), {
+      dry: false,
+      lock: true,
+      backup: true,
+      backupDir: path.join(TEST_DIR, "backups"),
+    });
+
+    await stubTimestamp("01", () =>
+      migrator.create("add users", "CREATE TABLE users (id INTEGER)", ""),
+    );
+    await migrator.up();
+
+    let [backup] = await migrator.listBackups();
+    let copy = new Database(backup.file, { readonly: true });
+    assert.deepEqual(copy.prepare("SELECT * FROM _migralite_lock").all(), []);
+    copy.close();
+
+    await migrator.restore(backup.id);
+    assert.equal(migrator.getLock(), null);
+    db.close();
+  });
+
+  test("skips in-memory databases", async () => {
+    let db = new Database(":memory:");
+    let backupDir = path.join(TEST_DIR, "backups");
+    let migrator = new Migrator(db, TEST_DIR, {
+      dry: false,
+      backup: true,
+      backupDir,
+    });
+
+    await stubTimestamp("01", () =>
+      migrator.create("add users", "CREATE TABLE users (id INTEGER)", ""),
+    );
+    await migrator.up();
+
+    assert.deepEqual(await migrator.listBackups(), []);
+  });
+});
+
+describe("lock", () => {
+  test("concurrent runs take turns", async () => {
+    await fs.mkdir(TEST_DIR, { recursive: true });
+    let dbPath = path.join(TEST_DIR, "db.sqlite");
+    let migrationsDir = path.join(TEST_DIR, "migrations");
+    let options = { dry: false, lock: true };
+    let a = new Migrator(new Database(dbPath), migrationsDir, options);
+    let b = new Migrator(new Database(dbPath), migrationsDir, options);
+
+    await stubTimestamp("01", () =>
+      a.create("add users", "CREATE TABLE users (id INTEGER)", ""),
+    );
+    await stubTimestamp("02", () =>
+      a.create("add posts", "CREATE TABLE posts (id INTEGER)", ""),
+    );
+
+    let [first, second] = await Promise.all([a.up(), b.up()]);
+    assert.deepEqual([...first, ...second], ["01-add-users", "02-add-posts"]);
+    assert.equal(a.getLock(), null);
+
+    a.db.close();
+    b.db.close();
+  });
+
+  test("unlock removes a lock left by a crashed run", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR, {
+      dry: false,
+      lock: true,
+      lockTimeout: 0,
+    });
+    await stubTimestamp("01", () =>
+      migrator.create("add users", "CREATE TABLE users (id INTEGER)", ""),
+    );
+
+    migrator.getLock();
+    db.prepare(
+      "INSERT INTO _migralite_lock VALUES (1, 'other-host', 1, 'crashed', '', ?)",
+    ).run(Date.now() + 60_000);
+
+    await assert.rejects(migrator.up(), /Timed out/);
+
+    let removed = migrator.unlock();
+    assert.equal(removed?.token, "crashed");
+    assert.deepEqual(await migrator.up(), ["01-add-users"]);
+  });
+});
+
+describe("schema", () => {
+  test("dumps the schema and loads it into an empty database", async () => {
+    let db = new Database(":memory:");
+    let schemaFile = path.join(TEST_DIR, "schema.sql");
+    let migrator = new Migrator(db, TEST_DIR, { dry: false, schemaFile });
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, name TEXT); CREATE INDEX users_name ON users (name);",
+        "DROP TABLE users",
+      ),
+    );
+    await migrator.up();
+
+    await migrator.dumpSchema();
+    let sql = await fs.readFile(schemaFile, "utf8");
+    assert.match(sql, /^CREATE TABLE users \(id INTEGER, name TEXT\);$/m);
+    assert.match(sql, /^CREATE INDEX users_name ON users \(name\);$/m);
+    assert.match(sql, /^INSERT INTO _migralite .*'01'/m);
+    assert.doesNotMatch(sql, /CREATE TABLE _migralite/);
+
+    let fresh = new Database(":memory:");
+    let freshMigrator = new Migrator(fresh, TEST_DIR, {
+      dry: false,
+      schemaFile,
+    });
+    await freshMigrator.loadSchema();
+
+    let q = "SELECT name FROM sqlite_master ORDER BY name";
+    assert.deepEqual(fresh.prepare(q).all(), db.prepare(q).all());
+    assert.deepEqual(await freshMigrator.getPendingMigrations(), []);
+    assert.deepEqual(await freshMigrator.verify(), []);
+  });
+
+  test("writes row types after up and rollback", async () => {
+    let db = new Database(":memory:");
+    let typesFile = path.join(TEST_DIR, "types", "db.ts");
+    let migrator = new Migrator(db, TEST_DIR, { dry: false, typesFile });
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)",
+        "DROP TABLE users",
+      ),
+    );
+    await migrator.up();
+
+    let types = await fs.readFile(typesFile, "utf8");
+    assert.match(
+      types,
+      /export type UsersRow = \{\n  id: number;\n  name: string;\n\};/,
+    );
+    assert.doesNotMatch(types, /_migralite/);
+
+    await migrator.rollback();
+    assert.doesNotMatch(await fs.readFile(typesFile, "utf8"), /UsersRow/);
+  });
+
+  test("leaves out the seeds table", async () => {
+    let db = new Database(":memory:");
+    let schemaFile = path.join(TEST_DIR, "schema.sql");
+    let migrator = new Migrator(db, TEST_DIR, { dry: false, schemaFile });
+    new Seeder(db, path.join(TEST_DIR, "seeds"));
+
+    await migrator.dumpSchema();
+    assert.doesNotMatch(await fs.readFile(schemaFile, "utf8"), /_seeds/);
+    assert.doesNotMatch(migrator.generateTypes(), /MigraliteSeedsRow/);
+    await assert.rejects(
+      migrator.generate("nothing", ""),
+      /The database already matches the desired schema/,
+    );
+  });
+
+  test("refuses to load into a database with tables", async () => {
+    let db = new Database(":memory:");
+    let schemaFile = path.join(TEST_DIR, "schema.sql");
+    let migrator = new Migrator(db, TEST_DIR, { dry: false, schemaFile });
+    await migrator.dumpSchema();
+
+    db.exec("CREATE TABLE users (id INTEGER)");
+    await assert.rejects(migrator.loadSchema(), /empty database/);
+  });
+
+  test("dumps after up and rollback", async () => {
+    let db = new Database(":memory:");
+    let schemaFile = path.join(TEST_DIR, "schema.sql");
+    let migrator = new Migrator(db, TEST_DIR, {
+      dry: false,
+      dumpSchema: true,
+      schemaFile,
+    });
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, name TEXT)",
+        "DROP TABLE users",
+      ),
+    );
+
+    await migrator.up();
+    assert.match(await fs.readFile(schemaFile, "utf8"), /CREATE TABLE users/);
+
+    await migrator.rollback();
+    assert.doesNotMatch(
+      await fs.readFile(schemaFile, "utf8"),
+      /CREATE TABLE users/,
+    );
+  });
+});
+
+test("dry doesn't write to the db", async () => {
+  let db = new Database(":memory:");
+  let migrator = new Migrator(db, TEST_DIR, { dry: true });
+
+  let a = await stubTimestamp("01", () => {
+    let upSql = "CREATE TABLE users (id INTEGER, name TEXT);";
+    let downSql = "DROP TABLE users;";
+    return migrator.create("add users", upSql, downSql);
+  });
+
+  let migrated = await migrator.up();
+
+  // returns the migration that would have been run
+  assert.deepEqual(migrated, [a.name]);
+
+  let q = "SELECT name FROM sqlite_master WHERE type='table' ORDER BY name";
+  let tables = db.prepare(q).all();
+  // doesn't write to the db
+  assert.deepEqual(tables, [{ name: "_migralite" }]);
+});
+
+describe("errors", () => {
+  test("reports the failing migration, statement and completed migrations", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create("add users", "CREATE TABLE users (id INTEGER)", ""),
+    );
+    let b = await stubTimestamp("02", () =>
+      migrator.create(
+        "add posts",
+        "CREATE TABLE posts (id INTEGER);\n\nINSERT INTO posts VALUES (1,);",
+        "",
+      ),
+    );
+
+    await assert.rejects(migrator.up(), (error: unknown) => {
+      assert.ok(error instanceof MigrationError);
+      assert.equal(error.id, "02");
+      assert.equal(error.migration, b.name);
+      assert.equal(error.direction, "up");
+      assert.equal(error.file, path.join(TEST_DIR, b.up));
+      assert.equal(error.statement, "INSERT INTO posts VALUES (1,)");
+      assert.equal(error.line, 3);
+      assert.deepEqual(error.completed, [a.name]);
+      assert.match(error.message, /02-add-posts failed \(up\): .*syntax error/);
+      return true;
+    });
+
+    // the failed migration was rolled back
+    let q = "SELECT name FROM sqlite_master WHERE type='table' ORDER BY name";
+    assert.deepEqual(db.prepare(q).all(), [
+      { name: "_migralite" },
+      { name: "users" },
+    ]);
+  });
+
+  test("wraps migrations that fail to load", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create("add users", "CREATE TABLE users (id INTEGER)", ""),
+    );
+    await fs.rm(path.join(TEST_DIR, a.down));
+
+    await assert.rejects(migrator.up(), (error: unknown) => {
+      assert.ok(error instanceof MigrationError);
+      assert.equal(error.file, path.join(TEST_DIR, a.name));
+      assert.equal(error.statement, null);
+      return true;
+    });
+  });
+});
+
+describe("events", () => {
+  test("emits lifecycle events for a run", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+    let events: string[] = [];
+
+    migrator.on("runStart", e =>
+      events.push(`runStart ${e.direction} ${e.migrations.join(",")}`),
+    );
+    migrator.on("beforeMigration", e =>
+      events.push(`beforeMigration ${e.direction} ${e.id}`),
+    );
+    migrator.on("afterMigration", e => {
+      assert.equal(typeof e.duration, "number");
+      events.push(`afterMigration ${e.direction} ${e.id}`);
+    });
+    migrator.on("runComplete", e =>
+      events.push(`runComplete ${e.direction} ${e.migrations.length}`),
+    );
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER)",
+        "DROP TABLE users",
+      ),
+    );
+    await migrator.up();
+    await migrator.rollback();
+
+    assert.deepEqual(events, [
+      "runStart up 01-add-users",
+      "beforeMigration up 01",
+      "afterMigration up 01",
+      "runComplete up 1",
+      "runStart down 01-add-users",
+      "beforeMigration down 01",
+      "afterMigration down 01",
+      "runComplete down 1",
+    ]);
+  });
+
+  test("emits migrationFailed", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+    let failed: string[] = [];
+    migrator.on("migrationFailed", e => failed.push(e.error.message));
+
+    await stubTimestamp("01", () =>
+      migrator.create("add users", "CREATE TABLE users (id INTEGER,)", ""),
+    );
+
+    await assert.rejects(migrator.up(), /syntax error/);
+    assert.equal(failed.length, 1);
+    assert.match(failed[0], /syntax error/);
+  });
+
+  test("hooks returning false abort the run", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR, {
+      dry: false,
+      hooks: {
+        beforeMigration: e => e.id !== "02",
+      },
+    });
+
+    await stubTimestamp("01", () =>
+      migrator.create("add users", "CREATE TABLE users (id INTEGER)", ""),
+    );
+    await stubTimestamp("02", () =>
+      migrator.create("add posts", "CREATE TABLE posts (id INTEGER)", ""),
+    );
+
+    await assert.rejects(migrator.up(), /aborted by the beforeMigration hook/);
+    assert.deepEqual(
+      (await migrator.getAppliedMigrations()).map(m => m.id),
+      ["01"],
+    );
+  });
+
+  test("hooks for failures and completed runs can't abort", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR, {
+      dry: false,
+      hooks: {
+        migrationFailed: () => false,
+        runComplete: () => false,
+      },
+    });
+
+    await stubTimestamp("01", () =>
+      migrator.create("add users", "CREATE TABLE users (id INTEGER)", ""),
+    );
+    assert.deepEqual(await migrator.up(), ["01-add-users"]);
+
+    await stubTimestamp("02", () =>
+      migrator.create("add posts", "CREATE TABLE posts (id INTEGER,)", ""),
+    );
+    await assert.rejects(migrator.up(), MigrationError);
+  });
+});
+
+describe("dryRun", () => {
+  test("reports what each migration would change", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, name TEXT)",
+        "DROP TABLE users",
+      ),
+    );
+    let b = await stubTimestamp("02", () =>
+      migrator.create(
+        "add users index",
+        "CREATE INDEX users_name ON users (name)",
+        "DROP INDEX users_name",
+      ),
+    );
+
+    let results = await migrator.dryRun("up");
+    assert.deepEqual(
+      results.map(r => [r.migration, r.ok, r.diff?.added.map(o => o.name)]),
+      [
+        [a.name, true, ["users"]],
+        [b.name, true, ["users_name"]],
+      ],
+    );
+
+    let q = "SELECT name FROM sqlite_master WHERE type='table' ORDER BY name";
+    assert.deepEqual(db.prepare(q).all(), [{ name: "_migralite" }]);
+    assert.deepEqual(await migrator.getAppliedMigrations(), []);
+  });
+
+  test("reports the failing statement", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, name TEXT);\nINSERT INTO users VALUES (1,);",
+        "DROP TABLE users",
+      ),
+    );
+
+    let [result] = await migrator.dryRun("up");
+    assert.equal(result.migration, a.name);
+    assert.equal(result.ok, false);
+    assert.equal(result.statement, "INSERT INTO users VALUES (1,)");
+    assert.equal(result.line, 2);
+    assert.match(String(result.error), /syntax error/);
+  });
+
+  test("rolls back down migrations", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+
+    let a = await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER, name TEXT)",
+        "DROP TABLE users",
+      ),
+    );
+    await migrator.up();
+
+    let [result] = await migrator.dryRun("down");
+    assert.equal(result.migration, a.name);
+    assert.deepEqual(
+      result.diff?.removed.map(o => o.name),
+      ["users"],
+    );
+
+    let q = "SELECT name FROM sqlite_master WHERE type='table' ORDER BY name";
+    assert.deepEqual(db.prepare(q).all(), [
+      { name: "_migralite" },
+      { name: "users" },
+    ]);
+  });
+
+  test("dry up fails on invalid SQL", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR, { dry: true });
+
+    await stubTimestamp("01", () =>
+      migrator.create("add users", "CREATE TABLE users (id INTEGER,)", ""),
+    );
+
+    await assert.rejects(migrator.up(), /syntax error/);
+  });
+
+  test("stops at migrations without a transaction", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR, { dry: false });
+
+    for (let [id, name, up] of [
+      ["01", "add users", "CREATE TABLE users (id INTEGER)"],
+      ["02", "vacuum", "-- migralite: no-transaction\nVACUUM"],
+      ["03", "add posts", "CREATE TABLE posts (id INTEGER)"],
+    ]) {
+      await stubTimestamp(id, () => migrator.create(name, up, ""));
+    }
+
+    let results = await migrator.dryRun("up");
+    assert.deepEqual(
+      results.map(r => [r.migration, r.ok, r.skipped]),
+      [
+        ["01-add-users", true, false],
+        ["02-vacuum", true, true],
+      ],
+    );
+    let migrations = ["01-add-users", "02-vacuum"];
+    let dry = new Migrator(db, TEST_DIR, { dry: true });
+    assert.deepEqual(await dry.up(), migrations);
+    assert.deepEqual(
+      new MigratorSync(db, TEST_DIR, { dry: true }).up(),
+      migrations,
+    );
+    assert.deepEqual(await migrator.getAppliedMigrations(), []);
+
+    await migrator.up("02");
+    await assert.rejects(
+      dry.redo(),
+      /Migration 02-vacuum runs with no-transaction, which can't be dry run/,
+    );
+  });
+
+  test("dry redo turns foreign keys off", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR, { dry: false });
+
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER PRIMARY KEY); CREATE TABLE posts (user_id INTEGER REFERENCES users);",
+        "",
+      ),
+    );
+    await stubTimestamp("02", () =>
+      migrator.create(
+        "rebuild users",
+        "-- migralite: foreign-keys-off\nCREATE TABLE new_users (id INTEGER PRIMARY KEY, name TEXT); INSERT INTO new_users (id) SELECT id FROM users; DROP TABLE users; ALTER TABLE new_users RENAME TO users;",
+        "-- migralite: foreign-keys-off\nCREATE TABLE old_users (id INTEGER PRIMARY KEY); INSERT INTO old_users SELECT id FROM users; DROP TABLE users; ALTER TABLE old_users RENAME TO users;",
+      ),
+    );
+    await migrator.up();
+    db.exec("INSERT INTO users (id) VALUES (1); INSERT INTO posts VALUES (1)");
+
+    let dry = new Migrator(db, TEST_DIR, { dry: true });
+    assert.deepEqual(await dry.redo(), ["02-rebuild-users"]);
+    assert.equal(db.pragma("foreign_keys", { simple: true }), 1);
+    assert.deepEqual(db.prepare("SELECT * FROM posts").all(), [{ user_id: 1 }]);
+  });
+});
+
+describe("MigratorSync", () => {
+  test("applies and rolls back migrations synchronously", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+    await stubTimestamp("01", () =>
+      migrator.create(
+        "add users",
+        "CREATE TABLE users (id INTEGER)",
+        "DROP TABLE users",
+      ),
+    );
+    await stubTimestamp("02", () =>
+      migrator.create(
+        "add posts",
+        "CREATE TABLE posts (id INTEGER)",
+        "DROP TABLE posts",
+      ),
+    );
+
+    let sync = new MigratorSync(db, TEST_DIR);
+    let events: string[] = [];
+    sync.on("afterMigration", e => events.push(`${e.direction} ${e.id}`));
+
+    assert.deepEqual(new MigratorSync(db, TEST_DIR, { dry: true }).up(), [
+      "01-add-users",
+      "02-add-posts",
+    ]);
+    assert.deepEqual(sync.getAppliedMigrations(), []);
+
+    assert.deepEqual(sync.up("01"), ["01-add-users"]);
+    assert.deepEqual(
+      sync.status().map(s => s.state),
+      ["applied", "pending"],
+    );
+    assert.deepEqual(sync.up(), ["02-add-posts"]);
+    assert.deepEqual(sync.rollback({ to: "01" }), ["02-add-posts"]);
+    assert.deepEqual(events, ["up 01", "up 02", "down 02"]);
+
+    // the async migrator sees the same state
+    assert.deepEqual(await migrator.getPendingMigrations(), ["02-add-posts"]);
+    assert.deepEqual(await migrator.verify(), []);
+  });
+
+  test("refuses migrations it can't load synchronously", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(db, TEST_DIR);
+    await stubTimestamp("01", () =>
+      migrator.createModule(
+        "backfill",
+        "export function up(db) {}\nexport function down(db) {}\n",
+      ),
+    );
+
+    let sync = new MigratorSync(db, TEST_DIR);
+    assert.throws(
+      () => sync.up(),
+      /Migration 01-backfill failed \(up\): .*migration\.js is a module, which can't be loaded synchronously/,
+    );
+    assert.throws(
+      () =>
+        new MigratorSync(db, {
+          list: async () => [],
+          load: async () => ({ up: "", down: "", upFile: "", downFile: "" }),
+        }),
+      /MigratorSync needs a source with listSync and loadSync/,
+    );
+  });
+});
+
+describe("open", () => {
+  test("resolves once the migrations directory exists", async () => {
+    let dir = path.join(TEST_DIR, "nested", "migrations");
+    let migrator = await Migrator.open(new Database(":memory:"), dir);
+    assert.deepEqual(await fs.readdir(dir), []);
+    assert.deepEqual(await migrator.getPendingMigrations(), []);
+  });
 });
 
 ////////////////////////////////////////////////////////////////////////////////
@@ -1,33 +1,345 @@
 import path from "path";
 import fs from "fs/promises";
-import { type Database } from "better-sqlite3";
+import fsSync from "fs";
+import Sqlite, { type Database } from "better-sqlite3";
+import os from "os";
+import crypto from "crypto";
+import { EventEmitter } from "events";
 import invariant from "tiny-invariant";
+import {
+  createBackup,
+  databaseFile,
+  listBackups,
+  pruneBackups,
+  restoreBackup,
+} from "./backup.ts";
+import {
+  acquireLock,
+  forceUnlock,
+  readLock,
+  refreshLock,
+  releaseLock,
+} from "./lock.ts";
+import { execStatements, splitStatements, StatementError } from "./sql.ts";
+import { generateMigration } from "./generate.ts";
+import { generateTypes } from "./types.ts";
+import { DEFAULT_SEEDS_TABLE } from "./seed.ts";
+import {
+  directorySource,
+  type MigrationSource,
+  type MigrationStep,
+  type SourceMigration,
+} from "./source.ts";
+import { lintMigration, type LintIssue, type LintRules } from "./lint.ts";
+import {
+  execPlan,
+  formatPlan,
+  readPlanHeader,
+  type MigrationPlan,
+  type PlanStep,
+} from "./plan.ts";
+import {
+  diffSchema,
+  formatSchema,
+  isSchemaDiffEmpty,
+  readSchema,
+  type SchemaDiff,
+  type SchemaObject,
+} from "./schema.ts";
 
 export type MigrationEntry = {
   id: string;
   name: string;
   applied_at: string;
+  up_checksum: string | null;
+  down_checksum: string | null;
+};
+
+export type MigrationDrift = {
+  id: string;
+  migration: string;
+  /**
+   * - `modified`: the migration's files changed after it was applied
+   * - `missing`: the migration was applied but its directory is gone
+   * - `unknown`: the migration was applied before checksums were recorded
+   */
+  kind: "modified" | "missing" | "unknown";
+};
+
+export type MigrationStatus = {
+  id: string;
+  migration: string;
+  /**
+   * - `applied`: the migration has been applied
+   * - `pending`: the migration has not been applied yet
+   * - `pending-out-of-order`: the migration is older than the latest applied
+   *   one, like after merging a branch
+   * - `missing`: the migration was applied but its directory is gone
+   * - `applied-out-of-order`: the migration was applied after a newer one
+   */
+  state:
+    | "applied"
+    | "pending"
+    | "pending-out-of-order"
+    | "missing"
+    | "applied-out-of-order";
+  applied_at: string | null;
+};
+
+export type RoundTripResult = {
+  migration: string;
+  ok: boolean;
+  /** How the schema after `down` differs from the schema before `up` */
+  diff: SchemaDiff | null;
+  error: Error | null;
+};
+
+export type DryRunResult = {
+  migration: string;
+  ok: boolean;
+  /** How the migration changed the schema before it was rolled back */
+  diff: SchemaDiff | null;
+  error: Error | null;
+  /** The statement that failed, for SQL migrations */
+  statement: string | null;
+  line: number | null;
+  /**
+   * The migration runs with `no-transaction`, so it couldn't run inside the
+   * dry run's transaction and wasn't checked
+   */
+  skipped: boolean;
+};
+
+/**
+ * How a migration runs. SQL files set these with directives in their leading
+ * comments, like `-- migralite: no-transaction, foreign-keys-off`.
+ */
+export type MigrationSettings = {
+  /**
+   * Wrap the migration in a transaction (default: true). Turn this off for
+   * statements SQLite refuses to run in one, like `VACUUM`.
+   */
+  transaction: boolean;
+  /**
+   * Leave foreign key enforcement as it is (default: true). When false,
+   * foreign keys are turned off while the migration runs, for table rebuilds,
+   * and `PRAGMA foreign_key_check` must pass before it's recorded.
+   */
+  foreignKeys: boolean;
+};
+
+/**
+ * A `migration.ts` or `migration.js` file in a migration directory exports
+ * these in place of `+.sql` and `-.sql`. They run inside the migration's
+ * transaction, so they must be synchronous.
+ */
+export type MigrationModule = {
+  up: (db: Database) => void;
+  down: (db: Database) => void;
+  /** Settings for both directions */
+  settings?: Partial<MigrationSettings>;
+};
+
+type LoadedMigration = {
+  up: MigrationStep;
+  down: MigrationStep;
+  upFile: string;
+  downFile: string;
+  upChecksum: string;
+  downChecksum: string;
+  upSettings: MigrationSettings;
+  downSettings: MigrationSettings;
+};
+
+// squashed migrations are moved to `.archive/<baseline>/<migration>`
+const ARCHIVE_DIR = ".archive";
+
+const DEFAULT_SETTINGS: MigrationSettings = {
+  transaction: true,
+  foreignKeys: true,
+};
+
+const DIRECTIVES: Record<string, Partial<MigrationSettings>> = {
+  "no-transaction": { transaction: false },
+  "foreign-keys-off": { foreignKeys: false },
+};
+
+export type MigrationDirection = "up" | "down";
+
+/**
+ * What `reapplyLatest` did with the latest migration
+ */
+export type ReapplyResult = {
+  migration: string;
+  action: "applied" | "reapplied" | "unchanged";
+};
+
+/**
+ * How many of the latest migrations to roll back, or `{ to }` to roll back
+ * every migration applied after the one matching the `to` prefix
+ */
+export type RollbackTarget = number | { to: string };
+
+/**
+ * Thrown when a migration fails to load or run. The migration's transaction
+ * has been rolled back, unless it ran with `no-transaction`, but `completed`
+ * migrations from the same run stay applied.
+ */
+export class MigrationError extends Error {
+  id: string;
+  migration: string;
+  direction: MigrationDirection;
+  /** The file that failed, or the migration directory if it couldn't load */
+  file: string;
+  /** The statement SQLite rejected, for SQL migrations */
+  statement: string | null;
+  /** The line `statement` starts on in `file` */
+  line: number | null;
+  /** Migrations that succeeded earlier in the same run */
+  completed: string[] = [];
+
+  constructor(
+    cause: unknown,
+    details: { migration: string; direction: MigrationDirection; file: string },
+  ) {
+    let message = cause instanceof Error ? cause.message : String(cause);
+    super(
+      `Migration ${details.migration} failed (${details.direction}): ${message}`,
+      { cause },
+    );
+    this.name = "MigrationError";
+    this.id = details.migration.split("-")[0];
+    this.migration = details.migration;
+    this.direction = details.direction;
+    this.file = details.file;
+    this.statement = cause instanceof StatementError ? cause.statement : null;
+    this.line = cause instanceof StatementError ? cause.line : null;
+  }
+}
+
+export type MigrationEvent = {
+  direction: MigrationDirection;
+  id: string;
+  migration: string;
+};
+
+export type MigratorEvents = {
+  /** Pending migrations older than the latest applied one, before `up` */
+  outOfOrder: [{ migrations: string[]; latest: string }];
+  runStart: [{ direction: MigrationDirection; migrations: string[] }];
+  beforeMigration: [MigrationEvent];
+  afterMigration: [MigrationEvent & { duration: number }];
+  migrationFailed: [MigrationEvent & { duration: number; error: Error }];
+  runComplete: [
+    { direction: MigrationDirection; migrations: string[]; duration: number },
+  ];
+};
+
+// events a hook can abort the run from by returning `false`
+const CANCELLABLE_EVENTS: (keyof MigratorEvents)[] = [
+  "outOfOrder",
+  "runStart",
+  "beforeMigration",
+  "afterMigration",
+];
+
+/**
+ * Called before the matching event is emitted. Returning `false` from
+ * `outOfOrder`, `runStart`, `beforeMigration` or `afterMigration` aborts the
+ * run before the next migration.
+ */
+export type MigratorHooks = {
+  [K in keyof MigratorEvents]?: (...args: MigratorEvents[K]) => unknown;
 };
 
 export type MigratorOptions = {
   dry: boolean;
+  /** Refuse to run `up` when applied migrations have drifted */
+  verify?: boolean;
+  /**
+   * What `up` does with pending migrations older than the latest applied
+   * one: throw, emit `outOfOrder` and apply them, or apply them silently.
+   * Defaults to `warn`.
+   */
+  outOfOrder?: "error" | "warn" | "allow";
+  /** Write the schema file after `up` and `rollback` change the database */
+  dumpSchema?: boolean;
+  /** Defaults to `schema.sql` next to the migrations directory */
+  schemaFile?: string;
+  /**
+   * Write TypeScript row types for the schema to this file after `up` and
+   * `rollback` change the database
+   */
+  typesFile?: string;
+  /** Back up file databases before `up` applies migrations */
+  backup?: boolean;
+  /** Defaults to `backups` next to the database file */
+  backupDir?: string;
+  /** How many backups to keep, defaults to 10 */
+  backupKeep?: number;
+  hooks?: MigratorHooks;
+  /** Table applied migrations are recorded in, defaults to `_migralite` */
+  table?: string;
+  /**
+   * Attached database the migrations apply to, defaults to `main`. Migrations
+   * for an attached database must qualify the names they create, like
+   * `CREATE TABLE analytics.events`.
+   */
+  schema?: string;
+  /**
+   * Hold a lock in the `<table>_lock` table while `up` and `rollback` run so
+   * processes migrating the same database at once take turns
+   */
+  lock?: boolean;
+  /** How long to wait for another process's lock, defaults to 10 seconds */
+  lockTimeout?: number;
+  /** How long before a held lock is considered stale, defaults to 10 minutes */
+  lockTtl?: number;
 };
 
-export class Migrator {
+export class Migrator extends EventEmitter<MigratorEvents> {
   public db: Database;
-  public dir: string;
+  public source: MigrationSource;
+  /** The migrations directory, null for sources without one */
+  public dir: string | null;
   public options: MigratorOptions;
+  private lockToken: string | null = null;
+  private reconciled = false;
+  private ready: Promise<void>;
 
+  /**
+   * @param source Migrations directory, or a source like `arraySource(...)`
+   */
   constructor(
     db: Database,
-    dir: string,
+    source: string | MigrationSource,
     options: MigratorOptions = { dry: false },
   ) {
+    super();
     this.db = db;
-    this.dir = dir;
+    this.source = typeof source === "string" ? directorySource(source) : source;
+    this.dir = this.source.dir ?? null;
     this.options = options;
-    this.initFs();
-    this.initDb();
+    checkNames(this.table, this.schema);
+    // awaited before migrations are read, which is where errors surface
+    this.ready = this.dir
+      ? fs.mkdir(this.dir, { recursive: true }).then(() => {})
+      : Promise.resolve();
+    this.ready.catch(() => {});
+    createMigrationsTable(db, this.schema, this.table);
+  }
+
+  /**
+   * Create a migrator once its migrations directory exists
+   */
+  static async open(
+    db: Database,
+    source: string | MigrationSource,
+    options?: MigratorOptions,
+  ) {
+    let migrator = new Migrator(db, source, options);
+    await migrator.ready;
+    return migrator;
   }
 
   /**
@@ -36,15 +348,15 @@ export class Migrator {
    * @param name Migration name like "add users" or "create users index"
    */
   async create(name: string, upSql: string, downSql: string) {
-    let ts = timestamp();
-    let migrationName = `${ts}-${sanitizeName(name)}`;
+    let dir = this.requireDir("create");
+    let migrationName = `${timestamp()}-${sanitizeName(name)}`;
 
     let up = path.join(migrationName, "+.sql");
     let down = path.join(migrationName, "-.sql");
 
-    let dirPath = path.join(this.dir, migrationName);
-    let upPath = path.join(this.dir, up);
-    let downPath = path.join(this.dir, down);
+    let dirPath = path.join(dir, migrationName);
+    let upPath = path.join(dir, up);
+    let downPath = path.join(dir, down);
 
     await fs.mkdir(dirPath, { recursive: true });
     await fs.writeFile(upPath, upSql);
@@ -53,132 +365,1870 @@ export class Migrator {
     return { name: migrationName, up, down };
   }
 
-  async up(to?: string): Promise<string[]> {
+  /**
+   * Create a new migration that turns the database's schema into the schema
+   * in `schemaSql`, like a schema file you edited by hand. Review the
+   * generated SQL before applying it.
+   *
+   * @param name Migration name like "add user emails"
+   * @param schemaSql The desired schema, like the contents of `schema.sql`
+   */
+  async generate(name: string, schemaSql: string) {
+    invariant(
+      this.schema === "main",
+      "Generating migrations for attached databases isn't supported",
+    );
     let pending = await this.getPendingMigrations();
+    if (pending.length > 0) {
+      throw new Error(
+        `Apply pending migrations before generating a new one: ${pending.join(", ")}`,
+      );
+    }
+
+    let desired = new Sqlite(":memory:");
+    let objects: SchemaObject[];
+    try {
+      for (let statement of splitStatements(schemaSql)) {
+        // schema dumps also record the applied migrations
+        if (/^INSERT\s+INTO\s+(\w+)/i.exec(statement.sql)?.[1] === this.table) {
+          continue;
+        }
+        desired.exec(statement.sql);
+      }
+      objects = readSchema(desired, this.internalTables);
+    } finally {
+      desired.close();
+    }
+
+    let { up, down } = generateMigration(
+      readSchema(this.db, this.internalTables),
+      objects,
+    );
+    if (!up) {
+      throw new Error("The database already matches the desired schema");
+    }
+
+    let header = "-- Generated by migralite, review before applying\n";
+    return this.create(name, header + up, header + down);
+  }
+
+  /**
+   * Create a new migration backed by a `migration.js` or `migration.ts` module
+   *
+   * @param name Migration name like "backfill user emails"
+   * @param source Module source exporting `up(db)` and `down(db)`
+   */
+  async createModule(
+    name: string,
+    source: string,
+    extension: "js" | "ts" = "js",
+  ) {
+    let dir = this.requireDir("createModule");
+    let migrationName = `${timestamp()}-${sanitizeName(name)}`;
+    let file = path.join(migrationName, `migration.${extension}`);
+
+    await fs.mkdir(path.join(dir, migrationName), { recursive: true });
+    await fs.writeFile(path.join(dir, file), source);
+
+    return { name: migrationName, file };
+  }
+
+  async up(to?: string): Promise<string[]> {
+    return this.withLock(() => this.runUp(to));
+  }
+
+  async rollback(target: RollbackTarget = 1): Promise<string[]> {
+    return this.withLock(() => this.runRollback(target));
+  }
+
+  /**
+   * Roll back one applied migration, even when migrations applied after it
+   * stay applied
+   *
+   * @param id Migration id or name prefix
+   */
+  async down(id: string): Promise<string[]> {
+    return this.withLock(async () => {
+      let applied = await this.getAppliedMigrations();
+      let entry = applied[findApplied(applied, id)];
+      let migrations = await this.migrationNames([entry]);
 
-    if (to) {
-      let idx = pending.findIndex(m => m.startsWith(to));
-      if (idx === -1) {
-        throw new Error(`Migration ${to} not found`);
+      if (this.options.dry) {
+        return this.dryRunMigrations(migrations, "down");
+      }
+      return this.runMigrations(migrations, "down");
+    });
+  }
+
+  /**
+   * Roll back the latest migration and apply it again, picking up changes to
+   * its files
+   */
+  async redo(): Promise<string[]> {
+    return this.withLock(async () => {
+      let migrations = await this.resolveRollback(1);
+      if (migrations.length === 0) {
+        return [];
+      }
+
+      if (this.options.dry) {
+        let [migration] = migrations;
+        let settings = [
+          await this.migrationSettings(migration, "down"),
+          await this.migrationSettings(migration, "up"),
+        ];
+        if (settings.some(s => !s.transaction)) {
+          throw new Error(
+            `Migration ${migration} runs with no-transaction, which can't be dry run`,
+          );
+        }
+
+        let foreignKeysOff = settings.some(s => !s.foreignKeys);
+        await withForeignKeysOff(this.db, foreignKeysOff, async () => {
+          // one transaction so `up` runs against the rolled back schema
+          this.db.exec("BEGIN");
+          try {
+            await this.runMigration(migration, "down");
+            await this.runMigration(migration, "up");
+          } finally {
+            this.db.exec("ROLLBACK");
+          }
+        });
+        return migrations;
+      }
+
+      await this.runMigrations(migrations, "down");
+      return this.runMigrations(migrations, "up");
+    });
+  }
+
+  private async runUp(to?: string) {
+    if (!this.options.dry) {
+      await this.reconcileBaselines(true);
+    }
+
+    if (this.options.verify) {
+      let drift = await this.verify();
+      if (drift.length > 0) {
+        let list = drift.map(d => `${d.migration} (${d.kind})`).join(", ");
+        let hint = drift.some(d => d.kind === "unknown")
+          ? ", run `migralite verify --record` to record checksums for migrations applied before they were recorded"
+          : "";
+        throw new Error(`Migration drift detected: ${list}${hint}`);
       }
-      pending = pending.slice(0, idx + 1);
     }
 
+    let pending = await this.resolveUp(to);
+
     if (pending.length === 0) {
       return [];
     }
 
-    let migrated: string[] = [];
+    await this.checkOrder(pending);
+
+    if (this.options.dry) {
+      return this.dryRunMigrations(pending, "up");
+    }
 
-    for (let migration of pending) {
-      let file = await this.runMigration(migration, "up");
-      migrated.push(file);
+    if (this.options.backup && databaseFile(this.db, this.schema)) {
+      await this.backup();
     }
 
-    return migrated;
+    return this.runMigrations(pending, "up");
   }
 
-  async rollback(steps = 1): Promise<string[]> {
-    if (steps < 1) {
+  private async runRollback(target: RollbackTarget) {
+    let toRollback = await this.resolveRollback(target);
+
+    if (toRollback.length === 0) {
       return [];
     }
 
-    let applied = await this.getAppliedMigrations();
-    if (steps > applied.length) {
-      steps = applied.length;
+    if (this.options.dry) {
+      return this.dryRunMigrations(toRollback, "down");
     }
 
-    if (steps === 0) {
-      return [];
+    return this.runMigrations(toRollback, "down");
+  }
+
+  /**
+   * Bring the latest migration in line with its files while you write it.
+   * A pending migration is applied. An applied one whose files changed is
+   * rolled back with the down SQL stored when it was applied, then the new
+   * version is applied, in one transaction so a failing new version leaves
+   * the old one applied. Changes to earlier migrations and migrations that
+   * run with `no-transaction` are refused.
+   */
+  async reapplyLatest(): Promise<ReapplyResult | null> {
+    return this.withLock(async () => {
+      let latest = (await this.readMigrations()).at(-1);
+      if (!latest) return null;
+
+      let id = latest.split("-")[0];
+      let earlier = (await this.verify()).filter(
+        drift => drift.kind === "modified" && drift.id !== id,
+      );
+      if (earlier.length > 0) {
+        throw new Error(
+          `Only the latest migration can be reapplied, ${earlier.map(d => d.migration).join(", ")} changed after being applied`,
+        );
+      }
+
+      let entry = (await this.getAppliedMigrations()).find(e => e.id === id);
+      if (!entry) {
+        await this.runUp();
+        return { migration: latest, action: "applied" };
+      }
+
+      let loaded = await this.loadMigration(latest);
+      if (
+        loaded.upChecksum === entry.up_checksum &&
+        loaded.downChecksum === entry.down_checksum
+      ) {
+        return { migration: latest, action: "unchanged" };
+      }
+
+      let downSql = this.db
+        .prepare(`SELECT down_sql FROM ${this.tableName} WHERE id = ?`)
+        .pluck()
+        .get(id) as string | null;
+      if (downSql === null) {
+        throw new Error(
+          `Migration ${latest} has no down SQL stored from when it was applied, roll it back by hand`,
+        );
+      }
+
+      let settings = [
+        readDirectives(downSql, loaded.downFile),
+        loaded.upSettings,
+      ];
+      if (settings.some(s => !s.transaction)) {
+        throw new Error(
+          `Migration ${latest} runs with no-transaction, which can't be reapplied in one transaction, roll it back and apply it again`,
+        );
+      }
+
+      let db = this.db;
+      let foreignKeysOff = settings.some(s => !s.foreignKeys);
+      withForeignKeysOff(db, foreignKeysOff, () => {
+        db.transaction(() => {
+          try {
+            execStatements(db, downSql);
+            if (foreignKeysOff) {
+              checkForeignKeys(db, this.schema);
+            }
+            db.prepare(`DELETE FROM ${this.tableName} WHERE id = ?`).run(id);
+          } catch (error) {
+            throw new MigrationError(error, {
+              migration: latest,
+              direction: "down",
+              file: this.filePath(loaded.downFile),
+            });
+          }
+          try {
+            applyMigration(
+              db,
+              this.schema,
+              this.tableName,
+              latest,
+              "up",
+              loaded,
+            );
+            if (foreignKeysOff) {
+              checkForeignKeys(db, this.schema);
+            }
+          } catch (error) {
+            throw new MigrationError(error, {
+              migration: latest,
+              direction: "up",
+              file: this.filePath(loaded.upFile),
+            });
+          }
+        })();
+      });
+
+      await this.afterRun();
+      return { migration: latest, action: "reapplied" };
+    });
+  }
+
+  /**
+   * Give a pending migration a fresh timestamp so it sorts after the applied
+   * ones, like after merging a branch with an older migration
+   *
+   * @param id Migration id or name prefix
+   */
+  async rebase(id: string) {
+    let dir = this.requireDir("rebase");
+    let pending = await this.getPendingMigrations();
+    let from = pending.find(m => m.startsWith(id));
+    if (!from) {
+      throw new Error(`Pending migration ${id} not found`);
     }
 
-    let toRollback = applied.slice(-steps).reverse();
-    if (toRollback.length === 0) {
-      return [];
+    let ids = (await this.readMigrations()).map(m => m.split("-")[0]);
+    let next = timestamp();
+    // rebasing several in the same second would collide
+    while (ids.includes(next)) {
+      next = String(Number(next) + 1);
+    }
+
+    let to = from.replace(/^[^-]+/, next);
+    await fs.rename(path.join(dir, from), path.join(dir, to));
+    return { from, to };
+  }
+
+  /**
+   * Replace every migration up to and including `until` with one baseline
+   * migration that recreates the schema and data they produce. The squashed
+   * directories are archived, and databases that applied all of them are
+   * switched to the baseline the next time they're opened.
+   *
+   * @param until Migration id or name prefix of the last migration to squash
+   */
+  async squash(until: string) {
+    invariant(
+      this.schema === "main",
+      "Squashing migrations for attached databases isn't supported",
+    );
+    let dir = this.requireDir("squash");
+
+    let migrations = await this.readMigrations();
+    let idx = migrations.findIndex(m => m.startsWith(until));
+    if (idx === -1) {
+      throw new Error(`Migration ${until} not found`);
+    }
+    let squashed = migrations.slice(0, idx + 1);
+    let baseline = `${squashed[idx].split("-")[0]}-baseline`;
+    let archive = path.join(dir, ARCHIVE_DIR, baseline);
+    if ((await readDirectories(archive)).length > 0) {
+      throw new Error(`Migrations up to ${until} are already squashed`);
+    }
+
+    // replay the squashed migrations on a fresh database for their result
+    let fresh = new Sqlite(":memory:");
+    let up: string;
+    let down: string;
+    try {
+      let replay = new Migrator(fresh, this.source, {
+        dry: false,
+        table: this.options.table,
+        outOfOrder: "allow",
+      });
+      await replay.up(squashed[idx]);
+      let objects = readSchema(fresh, this.internalTables);
+      // tables are written in name order, so rows and drops can come before
+      // the tables they reference
+      let directive = "-- migralite: foreign-keys-off\n";
+      up = [
+        `${directive}-- Baseline of ${squashed.length} migrations, see ${ARCHIVE_DIR}/${baseline}\n`,
+        formatSchema(objects),
+        dumpRows(fresh, objects),
+      ]
+        .filter(Boolean)
+        .join("\n");
+      down = directive + dropObjects(objects);
+    } finally {
+      fresh.close();
+    }
+
+    await fs.mkdir(archive, { recursive: true });
+    for (let migration of squashed) {
+      await fs.rename(path.join(dir, migration), path.join(archive, migration));
+    }
+    await fs.mkdir(path.join(dir, baseline));
+    await fs.writeFile(path.join(dir, baseline, "+.sql"), up);
+    await fs.writeFile(path.join(dir, baseline, "-.sql"), down);
+
+    this.reconciled = false;
+    return { name: baseline, squashed, archive };
+  }
+
+  /**
+   * Run the migrations `up(to)` or `rollback(target)` would run inside a
+   * transaction that is always rolled back, reporting what each one did.
+   * Stops at the first migration that fails.
+   */
+  async dryRun(direction: "up", to?: string): Promise<DryRunResult[]>;
+  async dryRun(
+    direction: "down",
+    target?: RollbackTarget,
+  ): Promise<DryRunResult[]>;
+  async dryRun(
+    direction: MigrationDirection,
+    target?: string | RollbackTarget,
+  ): Promise<DryRunResult[]> {
+    let migrations =
+      direction === "up"
+        ? await this.resolveUp(target as string | undefined)
+        : await this.resolveRollback(target as RollbackTarget | undefined);
+    return this.runDry(migrations, direction);
+  }
+
+  /**
+   * Render the migrations `up(to)` or `rollback(target)` would run as one SQL
+   * script, including the statements that record them in the migrations
+   * table, to review or run later with `applyPlan`. Only SQL migrations can
+   * be planned.
+   */
+  async plan(direction: "up", to?: string): Promise<MigrationPlan>;
+  async plan(
+    direction: "down",
+    target?: RollbackTarget,
+  ): Promise<MigrationPlan>;
+  async plan(
+    direction: MigrationDirection,
+    target?: string | RollbackTarget,
+  ): Promise<MigrationPlan> {
+    let migrations: string[];
+    if (direction === "up") {
+      migrations = await this.resolveUp(target as string | undefined);
+      if (migrations.length > 0) {
+        await this.checkOrder(migrations);
+      }
+    } else {
+      migrations = await this.resolveRollback(
+        target as RollbackTarget | undefined,
+      );
+    }
+
+    let steps: PlanStep[] = [];
+    for (let migration of migrations) {
+      let loaded = await this.loadMigration(migration);
+      let sql = direction === "up" ? loaded.up : loaded.down;
+      if (typeof sql !== "string") {
+        throw new Error(
+          `Migration ${migration} is a module, only SQL migrations can be planned`,
+        );
+      }
+
+      let id = quote(migration.split("-")[0]);
+      steps.push({
+        migration,
+        sql,
+        settings: direction === "up" ? loaded.upSettings : loaded.downSettings,
+        bookkeeping:
+          direction === "up"
+            ? `INSERT INTO ${this.tableName} (id, name, applied_at, up_checksum, down_checksum, down_sql) VALUES (${id}, ${quote(loaded.upFile)}, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), ${quote(loaded.upChecksum)}, ${quote(loaded.downChecksum)}, ${quote(storedDown(loaded))})`
+            : `DELETE FROM ${this.tableName} WHERE id = ${id}`,
+        schema: this.schema,
+      });
+    }
+
+    let header = {
+      direction,
+      from: fingerprint(await this.getAppliedMigrations()),
+      migrations,
+    };
+    return { ...header, sql: formatPlan(header, steps) };
+  }
+
+  /**
+   * Run a plan made by `plan`, after checking the applied migrations haven't
+   * changed since it was made
+   *
+   * @returns The migrations the plan ran
+   */
+  async applyPlan(sql: string): Promise<string[]> {
+    let header = readPlanHeader(sql);
+
+    return this.withLock(async () => {
+      let from = fingerprint(await this.getAppliedMigrations());
+      if (from !== header.from) {
+        throw new Error(
+          "The applied migrations changed since the plan was made, make a new plan",
+        );
+      }
+
+      execPlan(this.db, sql);
+      await this.afterRun();
+      return header.migrations;
+    });
+  }
+
+  /**
+   * Check every SQL migration for operations that lose data or can't be
+   * rolled back. Module migrations are skipped.
+   *
+   * @param rules Severity overrides by rule, `"off"` disables a rule
+   */
+  async lint(rules: LintRules = {}): Promise<LintIssue[]> {
+    let issues: LintIssue[] = [];
+    for (let migration of await this.readMigrations()) {
+      let loaded = await this.loadMigration(migration);
+      if (typeof loaded.up !== "string" || typeof loaded.down !== "string") {
+        continue;
+      }
+      issues.push(
+        ...lintMigration(
+          {
+            migration,
+            up: loaded.up,
+            down: loaded.down,
+            upFile: loaded.upFile,
+            downFile: loaded.downFile,
+          },
+          rules,
+        ),
+      );
+    }
+    return issues;
+  }
+
+  /**
+   * Compare the checksums recorded when migrations were applied against the
+   * migration files on disk.
+   */
+  async verify(): Promise<MigrationDrift[]> {
+    let applied = await this.getAppliedMigrations();
+    let migrations = await this.readMigrations();
+    let map = new Map(migrations.map(f => [f.split("-")[0], f]));
+    let drift: MigrationDrift[] = [];
+
+    for (let entry of applied) {
+      let migration = map.get(entry.id);
+      if (!migration) {
+        drift.push({
+          id: entry.id,
+          migration: path.dirname(entry.name),
+          kind: "missing",
+        });
+        continue;
+      }
+
+      if (entry.up_checksum === null || entry.down_checksum === null) {
+        drift.push({ id: entry.id, migration, kind: "unknown" });
+        continue;
+      }
+
+      let loaded = await this.loadMigration(migration);
+      if (
+        loaded.upChecksum !== entry.up_checksum ||
+        loaded.downChecksum !== entry.down_checksum
+      ) {
+        drift.push({ id: entry.id, migration, kind: "modified" });
+      }
     }
 
-    let migrations = await fs.readdir(this.dir);
+    return drift;
+  }
+
+  /**
+   * Record checksums from the current files for migrations applied before
+   * checksums were recorded, so `verify` can check them from now on. Returns
+   * the migrations that were recorded.
+   */
+  async recordChecksums(): Promise<string[]> {
+    let applied = await this.getAppliedMigrations();
+    let migrations = await this.readMigrations();
     let map = new Map(migrations.map(f => [f.split("-")[0], f]));
-    let migrated: string[] = [];
+    let recorded: string[] = [];
 
-    for (let entry of toRollback) {
+    for (let entry of applied) {
       let migration = map.get(entry.id);
-      invariant(migration, `Migration file for ${entry.id} not found`);
-      migrated.push(await this.runMigration(migration, "down"));
+      if (!migration) continue;
+      if (entry.up_checksum !== null && entry.down_checksum !== null) continue;
+
+      let loaded = await this.loadMigration(migration);
+      this.db
+        .prepare(
+          `UPDATE ${this.tableName} SET up_checksum = ?, down_checksum = ?, down_sql = coalesce(down_sql, ?) WHERE id = ?`,
+        )
+        .run(
+          loaded.upChecksum,
+          loaded.downChecksum,
+          storedDown(loaded),
+          entry.id,
+        );
+      recorded.push(migration);
     }
 
-    return migrated;
+    return recorded;
   }
 
-  private async runMigration(migration: string, direction: "up" | "down") {
-    let fileName = path.join(migration, direction === "up" ? "+.sql" : "-.sql");
-    let sqlFile = path.join(this.dir, fileName);
-    let sql = await fs.readFile(sqlFile, "utf8");
-    let id = migration.split("-")[0];
-    let db = this.db;
+  /**
+   * List every migration known from the migrations directory and the
+   * database, ordered by id.
+   */
+  async status(): Promise<MigrationStatus[]> {
+    let applied = await this.getAppliedMigrations();
+    return migrationStatus(applied, await this.readMigrations());
+  }
 
-    if (!this.options.dry) {
-      db.transaction(() => {
-        db.exec(sql);
-
-        if (direction === "up") {
-          db.prepare(
-            "INSERT INTO _migralite (id, name, applied_at) VALUES (?, ?, ?)",
-          ).run(id, fileName, new Date().toISOString());
-        } else {
-          db.prepare("DELETE FROM _migralite WHERE id = ?").run(id);
+  /**
+   * Apply, roll back and re-apply each pending migration against an in-memory
+   * clone of the database, checking that `down` restores the schema `up`
+   * started from. The database itself is left untouched.
+   */
+  async testRoundTrip(): Promise<RoundTripResult[]> {
+    let clone = new Sqlite(this.db.serialize());
+    let tmpDir: string | null = null;
+    if (this.schema !== "main") {
+      // attached databases can only be cloned through a file
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "migralite-"));
+      let file = path.join(tmpDir, `${this.schema}.sqlite`);
+      await fs.writeFile(file, this.db.serialize({ attached: this.schema }));
+      clone.prepare(`ATTACH ? AS ${this.schema}`).run(file);
+    }
+
+    let migrator = new Migrator(clone, this.source, {
+      dry: false,
+      table: this.options.table,
+      schema: this.options.schema,
+    });
+    let results: RoundTripResult[] = [];
+
+    try {
+      for (let migration of await migrator.getPendingMigrations()) {
+        let before = readSchema(clone, this.internalTables, this.schema);
+        let diff: SchemaDiff | null = null;
+
+        try {
+          await migrator.runMigration(migration, "up");
+          await migrator.runMigration(migration, "down");
+          diff = diffSchema(
+            before,
+            readSchema(clone, this.internalTables, this.schema),
+          );
+          await migrator.runMigration(migration, "up");
+        } catch (error) {
+          results.push({
+            migration,
+            ok: false,
+            diff,
+            error: toError(error),
+          });
+          // later migrations depend on this one
+          break;
         }
-      })();
+
+        results.push({
+          migration,
+          ok: isSchemaDiffEmpty(diff),
+          diff,
+          error: null,
+        });
+      }
+    } finally {
+      clone.close();
+      if (tmpDir) {
+        await fs.rm(tmpDir, { recursive: true, force: true });
+      }
     }
 
-    return migration;
+    return results;
+  }
+
+  get backupDir() {
+    if (this.options.backupDir) {
+      return this.options.backupDir;
+    }
+    if (this.schema === "main") {
+      return path.join(path.dirname(path.resolve(this.db.name)), "backups");
+    }
+    // keep attached databases from sharing backups with the main one
+    let file = databaseFile(this.db, this.schema);
+    return path.join(path.dirname(path.resolve(file)), "backups", this.schema);
   }
 
-  private async initFs() {
-    await fs.mkdir(this.dir, { recursive: true });
+  /**
+   * Snapshot the database into the backup directory, removing backups past
+   * the retention limit.
+   */
+  async backup() {
+    let backup = await createBackup(this.db, this.backupDir, this.schema);
+    // `up` backs up while holding the lock, which the copy mustn't keep
+    let copy = new Sqlite(backup.file);
+    try {
+      forceUnlock(copy, { table: `${this.table}_lock` });
+    } finally {
+      copy.close();
+    }
+    await pruneBackups(this.backupDir, this.options.backupKeep ?? 10);
+    return backup;
   }
 
-  private async initDb() {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS _migralite (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
+  async listBackups() {
+    return listBackups(this.backupDir);
   }
 
-  async getPendingMigrations() {
-    let applied = (await this.getAppliedMigrations()).map(row => row.id);
-    let files = await fs.readdir(this.dir);
-    return files.filter(f => !applied.includes(f.split("-")[0])).sort();
+  /**
+   * Replace the database with a backup
+   *
+   * @param id Backup id, or a unique prefix of one
+   */
+  async restore(id: string) {
+    let backup = await restoreBackup(this.db, this.backupDir, id, this.schema);
+    // backups taken while `up` held the lock still have it
+    forceUnlock(this.db, this.lockOptions);
+    return backup;
   }
 
-  async getAppliedMigrations() {
-    let entries = this.db
-      .prepare("SELECT id, name, applied_at FROM _migralite ORDER BY id ")
-      .all() as MigrationEntry[];
-    return entries;
+  get schemaFile() {
+    if (this.options.schemaFile) return this.options.schemaFile;
+    let dir = this.requireDir("The default schema file");
+    return path.join(path.dirname(path.resolve(dir)), "schema.sql");
   }
-}
 
-////////////////////////////////////////////////////////////////////////////////
+  /**
+   * Write the current schema and applied migrations to the schema file so
+   * schema changes show up in diffs.
+   */
+  async dumpSchema(file = this.schemaFile) {
+    let applied = await this.getAppliedMigrations();
+    let inserts = applied.map(
+      entry =>
+        `INSERT INTO ${this.table} (id, name, up_checksum, down_checksum) VALUES (${[
+          entry.id,
+          entry.name,
+          entry.up_checksum,
+          entry.down_checksum,
+        ]
+          .map(quote)
+          .join(", ")});\n`,
+    );
 
-function sanitizeName(name: string) {
-  return name
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-") // Replace non-alphanumeric chars with dash
-    .replace(/^-+|-+$/g, "") // Remove leading/trailing dashes
-    .replace(/-{2,}/g, "-"); // Replace multiple dashes with single dash
-}
+    let sql = [
+      "-- Generated by migralite, do not edit by hand\n",
+      formatSchema(readSchema(this.db, this.internalTables, this.schema)),
+      inserts.join(""),
+    ]
+      .filter(Boolean)
+      .join("\n");
 
-function timestamp() {
-  return new Date().toISOString().replace(/\D/g, "").slice(0, 14);
-}
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, sql);
+    return file;
+  }
 
-export function validateSql(sql: string) {
-  if (!sql || sql.trim() === "") {
-    throw new Error("SQL file is empty or invalid");
+  /**
+   * TypeScript row types for every table and view, like `UsersRow`
+   */
+  generateTypes() {
+    return generateTypes(this.db, this.internalTables, this.schema);
   }
+
+  /**
+   * Write the TypeScript row types to a file
+   */
+  async writeTypes(file = this.options.typesFile) {
+    invariant(file, "Pass a file or set the `typesFile` option");
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, this.generateTypes());
+    return file;
+  }
+
+  /**
+   * Bootstrap an empty database from the schema file, marking the migrations
+   * it was dumped from as applied.
+   */
+  async loadSchema(file = this.schemaFile) {
+    let existing = readSchema(this.db, this.internalTables, this.schema);
+    let applied = await this.getAppliedMigrations();
+    if (existing.length > 0 || applied.length > 0) {
+      throw new Error("Schema can only be loaded into an empty database");
+    }
+
+    let sql = await fs.readFile(file, "utf8");
+    // the dump's names are unqualified, so load attached databases directly
+    let db =
+      this.schema === "main"
+        ? this.db
+        : new Sqlite(databaseFile(this.db, this.schema), {
+            fileMustExist: true,
+          });
+    try {
+      db.transaction(() => db.exec(sql))();
+    } finally {
+      if (db !== this.db) db.close();
+    }
+    return file;
+  }
+
+  private async checkOrder(pending: string[]) {
+    let applied = await this.getAppliedMigrations();
+    let outOfOrder = checkOrder(pending, applied, this.options.outOfOrder);
+    if (outOfOrder) {
+      await this.notify("outOfOrder", outOfOrder);
+    }
+  }
+
+  private async afterRun() {
+    if (this.options.dumpSchema && !this.options.dry) {
+      await this.dumpSchema();
+    }
+    if (this.options.typesFile && !this.options.dry) {
+      await this.writeTypes();
+    }
+  }
+
+  private async runMigrations(
+    migrations: string[],
+    direction: MigrationDirection,
+  ) {
+    let run = migrationRun(migrations, direction);
+    let step = run.next();
+    while (!step.done) {
+      let value = step.value;
+      if ("migration" in value) {
+        let failure: unknown = null;
+        try {
+          await this.runMigration(value.migration, direction);
+        } catch (error) {
+          failure = error;
+        }
+        step = run.next(failure);
+        continue;
+      }
+
+      if (value.event === "afterMigration" && this.lockToken) {
+        refreshLock(this.db, this.lockToken, this.lockOptions);
+      }
+      if (value.event === "runComplete") {
+        await this.afterRun();
+      }
+      await this.notify<keyof MigratorEvents>(value.event, ...value.args);
+      step = run.next();
+    }
+    return step.value;
+  }
+
+  /**
+   * The process holding the migration lock, if any
+   */
+  getLock() {
+    return readLock(this.db, this.lockOptions);
+  }
+
+  /**
+   * Remove the migration lock no matter who holds it, for recovering from
+   * crashed runs. Returns the lock that was removed.
+   */
+  unlock() {
+    return forceUnlock(this.db, this.lockOptions);
+  }
+
+  get table() {
+    return this.options.table ?? "_migralite";
+  }
+
+  get schema() {
+    return this.options.schema ?? "main";
+  }
+
+  // the migrations table qualified with its schema, for queries
+  private get tableName() {
+    return `${this.schema}.${this.table}`;
+  }
+
+  // left out of schema dumps and comparisons, along with the seeds table
+  // `Seeder` records runs in by default
+  private get internalTables() {
+    return [this.table, `${this.table}_lock`, DEFAULT_SEEDS_TABLE];
+  }
+
+  private get lockOptions() {
+    return {
+      table: `${this.schema}.${this.table}_lock`,
+      timeout: this.options.lockTimeout,
+      ttl: this.options.lockTtl,
+    };
+  }
+
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    if (!this.options.lock || this.lockToken) {
+      return fn();
+    }
+
+    this.lockToken = await acquireLock(this.db, this.lockOptions);
+    try {
+      return await fn();
+    } finally {
+      releaseLock(this.db, this.lockToken, this.lockOptions);
+      this.lockToken = null;
+    }
+  }
+
+  /**
+   * Call the matching hook, then emit the event
+   */
+  private async notify<K extends keyof MigratorEvents>(
+    name: K,
+    ...args: MigratorEvents[K]
+  ) {
+    let hook = this.options.hooks?.[name] as
+      | ((...args: MigratorEvents[K]) => unknown)
+      | undefined;
+    let result = hook ? await hook(...args) : undefined;
+    if (result === false && CANCELLABLE_EVENTS.includes(name)) {
+      throw new Error(`Migration run aborted by the ${name} hook`);
+    }
+    this.emit<keyof MigratorEvents>(name, ...args);
+  }
+
+  private async dryRunMigrations(
+    migrations: string[],
+    direction: MigrationDirection,
+  ) {
+    let results = await this.runDry(migrations, direction);
+    let failed = results.find(result => !result.ok);
+    if (failed?.error) {
+      throw failed.error;
+    }
+    return results.map(result => result.migration);
+  }
+
+  private async runDry(
+    migrations: string[],
+    direction: MigrationDirection,
+  ): Promise<DryRunResult[]> {
+    let db = this.db;
+    let results: DryRunResult[] = [];
+
+    let settings = await Promise.all(
+      migrations.map(migration => this.migrationSettings(migration, direction)),
+    );
+    let foreignKeysOff = settings.some(s => !s.foreignKeys);
+    await withForeignKeysOff(db, foreignKeysOff, async () => {
+      db.exec("BEGIN");
+      try {
+        for (let [i, migration] of migrations.entries()) {
+          if (!settings[i].transaction) {
+            // later migrations may depend on what it would have done
+            results.push({
+              migration,
+              ok: true,
+              diff: null,
+              error: null,
+              statement: null,
+              line: null,
+              skipped: true,
+            });
+            break;
+          }
+
+          let before = readSchema(db, this.internalTables, this.schema);
+          try {
+            await this.runMigration(migration, direction);
+          } catch (error) {
+            results.push({
+              migration,
+              ok: false,
+              diff: null,
+              error: toError(error),
+              statement:
+                error instanceof MigrationError ? error.statement : null,
+              line: error instanceof MigrationError ? error.line : null,
+              skipped: false,
+            });
+            break;
+          }
+
+          results.push({
+            migration,
+            ok: true,
+            diff: diffSchema(
+              before,
+              readSchema(db, this.internalTables, this.schema),
+            ),
+            error: null,
+            statement: null,
+            line: null,
+            skipped: false,
+          });
+        }
+      } finally {
+        db.exec("ROLLBACK");
+      }
+    });
+
+    return results;
+  }
+
+  private async resolveUp(to?: string) {
+    return migrationsUpTo(await this.getPendingMigrations(), to);
+  }
+
+  private async resolveRollback(target?: RollbackTarget) {
+    let applied = await this.getAppliedMigrations();
+    return this.migrationNames(rollbackEntries(applied, target));
+  }
+
+  private async migrationNames(entries: MigrationEntry[]) {
+    return migrationNames(entries, await this.readMigrations());
+  }
+
+  private async runMigration(migration: string, direction: MigrationDirection) {
+    let file = this.filePath(migration);
+    try {
+      let loaded = await this.loadMigration(migration);
+      file = this.filePath(
+        direction === "up" ? loaded.upFile : loaded.downFile,
+      );
+      applyMigration(
+        this.db,
+        this.schema,
+        this.tableName,
+        migration,
+        direction,
+        loaded,
+      );
+    } catch (error) {
+      throw new MigrationError(error, { migration, direction, file });
+    }
+
+    return migration;
+  }
+
+  private async readMigrations() {
+    await this.ready;
+    return this.source.list();
+  }
+
+  /**
+   * Swap the records of squashed migrations for their baseline on databases
+   * that applied all of them, oldest baseline first so squashes of squashes
+   * line up.
+   *
+   * @param applyArchived Apply the archived migrations missing from databases
+   * that applied only some of a baseline's, instead of refusing them
+   */
+  private async reconcileBaselines(applyArchived = false) {
+    if (this.reconciled) return;
+    // only directories have an archive of squashed migrations
+    if (!this.dir) return;
+
+    let archiveDir = path.join(this.dir, ARCHIVE_DIR);
+    let migrations = await this.readMigrations();
+    for (let baseline of findBaselines(archiveDir, migrations)) {
+      let loaded = await this.loadMigration(baseline.location);
+      if (applyArchived) {
+        await this.applyArchived(baseline, loaded);
+      }
+      reconcileBaseline(this.db, this.tableName, archiveDir, baseline, loaded);
+    }
+    this.reconciled = true;
+  }
+
+  /**
+   * Apply the squashed migrations of a baseline from its archive when the
+   * database applied some of them but not the baseline itself
+   */
+  private async applyArchived(
+    baseline: { name: string; squashed: string[] },
+    loaded: LoadedMigration,
+  ) {
+    let id = baseline.name.split("-")[0];
+    let name = path.join(baseline.name, path.basename(loaded.upFile));
+    let applied = readApplied(this.db, this.tableName);
+    if (applied.some(e => e.id === id && e.name === name)) return;
+
+    let missing = pendingMigrations(applied, baseline.squashed);
+    if (missing.length === baseline.squashed.length) return;
+
+    for (let migration of missing) {
+      let location = path.join(ARCHIVE_DIR, baseline.name, migration);
+      let file = this.filePath(location);
+      try {
+        let archived = await this.loadMigration(location);
+        file = this.filePath(archived.upFile);
+        applyMigration(
+          this.db,
+          this.schema,
+          this.tableName,
+          migration,
+          "up",
+          archived,
+        );
+      } catch (error) {
+        throw new MigrationError(error, { migration, direction: "up", file });
+      }
+    }
+  }
+
+  private async loadMigration(migration: string): Promise<LoadedMigration> {
+    return prepareMigration(await this.source.load(migration));
+  }
+
+  /**
+   * The directives a migration runs with in one direction, the defaults when
+   * it doesn't load since running it reports that
+   */
+  private async migrationSettings(
+    migration: string,
+    direction: MigrationDirection,
+  ) {
+    try {
+      let loaded = await this.loadMigration(migration);
+      return direction === "up" ? loaded.upSettings : loaded.downSettings;
+    } catch {
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  /**
+   * The path of a migration file, relative to the migrations directory
+   * unless the source has none
+   */
+  private filePath(file: string) {
+    return this.dir ? path.join(this.dir, file) : file;
+  }
+
+  private requireDir(action: string) {
+    if (!this.dir) {
+      throw new Error(`${action} needs a migrations directory`);
+    }
+    return this.dir;
+  }
+
+  async getPendingMigrations() {
+    let applied = await this.getAppliedMigrations();
+    return pendingMigrations(applied, await this.readMigrations());
+  }
+
+  async getAppliedMigrations() {
+    await this.reconcileBaselines();
+    return readApplied(this.db, this.tableName);
+  }
+}
+
+export type MigratorSyncOptions = Partial<
+  Pick<MigratorOptions, "dry" | "outOfOrder" | "table" | "schema">
+>;
+
+/**
+ * Applies migrations synchronously, like better-sqlite3 runs queries, for
+ * scripts and module load time. It needs a source with `listSync` and
+ * `loadSync`: SQL migrations in a directory, `arraySource`, or `globSource`
+ * with eager imports. Events are emitted, but locks, backups, hooks, and the
+ * schema and types files need `Migrator`.
+ */
+export class MigratorSync extends EventEmitter<MigratorEvents> {
+  public db: Database;
+  public source: MigrationSource;
+  public options: MigratorSyncOptions;
+
+  constructor(
+    db: Database,
+    source: string | MigrationSource,
+    options: MigratorSyncOptions = {},
+  ) {
+    super();
+    this.db = db;
+    this.source = typeof source === "string" ? directorySource(source) : source;
+    this.options = options;
+    invariant(
+      this.source.listSync && this.source.loadSync,
+      "MigratorSync needs a source with listSync and loadSync",
+    );
+    checkNames(this.table, this.schema);
+    if (this.source.dir) {
+      fsSync.mkdirSync(this.source.dir, { recursive: true });
+    }
+    createMigrationsTable(db, this.schema, this.table);
+    this.reconcileBaselines();
+  }
+
+  get table() {
+    return this.options.table ?? "_migralite";
+  }
+
+  get schema() {
+    return this.options.schema ?? "main";
+  }
+
+  up(to?: string): string[] {
+    let pending = migrationsUpTo(this.getPendingMigrations(), to);
+    if (pending.length === 0) {
+      return [];
+    }
+
+    let applied = this.getAppliedMigrations();
+    let outOfOrder = checkOrder(pending, applied, this.options.outOfOrder);
+    if (outOfOrder) {
+      this.emit("outOfOrder", outOfOrder);
+    }
+    return this.runMigrations(pending, "up");
+  }
+
+  rollback(target?: RollbackTarget): string[] {
+    let entries = rollbackEntries(this.getAppliedMigrations(), target);
+    if (entries.length === 0) {
+      return [];
+    }
+
+    let migrations = migrationNames(entries, this.readMigrations());
+    return this.runMigrations(migrations, "down");
+  }
+
+  status(): MigrationStatus[] {
+    return migrationStatus(this.getAppliedMigrations(), this.readMigrations());
+  }
+
+  getPendingMigrations() {
+    return pendingMigrations(
+      this.getAppliedMigrations(),
+      this.readMigrations(),
+    );
+  }
+
+  getAppliedMigrations() {
+    return readApplied(this.db, this.tableName);
+  }
+
+  private get tableName() {
+    return `${this.schema}.${this.table}`;
+  }
+
+  private readMigrations() {
+    return this.source.listSync!();
+  }
+
+  private loadMigration(migration: string) {
+    return prepareMigration(this.source.loadSync!(migration));
+  }
+
+  /** See `Migrator`'s, which falls back to the defaults the same way */
+  private migrationSettings(migration: string, direction: MigrationDirection) {
+    try {
+      let loaded = this.loadMigration(migration);
+      return direction === "up" ? loaded.upSettings : loaded.downSettings;
+    } catch {
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  private filePath(file: string) {
+    return this.source.dir ? path.join(this.source.dir, file) : file;
+  }
+
+  private runMigrations(migrations: string[], direction: MigrationDirection) {
+    let db = this.db;
+    let dry = !!this.options.dry;
+
+    let settings = dry
+      ? migrations.map(migration =>
+          this.migrationSettings(migration, direction),
+        )
+      : [];
+    // a dry run stops at a migration that can't run in its transaction, later
+    // migrations may depend on what it would have done
+    let skipped = settings.findIndex(s => !s.transaction);
+    let toRun = skipped === -1 ? migrations : migrations.slice(0, skipped);
+
+    let foreignKeysOff = settings.some(s => !s.foreignKeys);
+    let completed = withForeignKeysOff(db, foreignKeysOff, () => {
+      if (dry) {
+        db.exec("BEGIN");
+      }
+      let run = migrationRun(toRun, direction);
+      let step = run.next();
+      try {
+        while (!step.done) {
+          let value = step.value;
+          if ("migration" in value) {
+            let failure: unknown = null;
+            try {
+              this.runMigration(value.migration, direction);
+            } catch (error) {
+              failure = error;
+            }
+            step = run.next(failure);
+            continue;
+          }
+
+          this.emit<keyof MigratorEvents>(value.event, ...value.args);
+          step = run.next();
+        }
+        return step.value;
+      } finally {
+        if (dry) {
+          db.exec("ROLLBACK");
+        }
+      }
+    });
+
+    return skipped === -1 ? completed : [...completed, migrations[skipped]];
+  }
+
+  private runMigration(migration: string, direction: MigrationDirection) {
+    let file = this.filePath(migration);
+    try {
+      let loaded = this.loadMigration(migration);
+      file = this.filePath(
+        direction === "up" ? loaded.upFile : loaded.downFile,
+      );
+      applyMigration(
+        this.db,
+        this.schema,
+        this.tableName,
+        migration,
+        direction,
+        loaded,
+      );
+    } catch (error) {
+      throw new MigrationError(error, { migration, direction, file });
+    }
+  }
+
+  /**
+   * Swap the records of squashed migrations for their baseline, like
+   * `Migrator` does before reading applied migrations
+   */
+  private reconcileBaselines() {
+    if (!this.source.dir) return;
+
+    let archiveDir = path.join(this.source.dir, ARCHIVE_DIR);
+    for (let baseline of findBaselines(archiveDir, this.readMigrations())) {
+      let loaded = this.loadMigration(baseline.location);
+      reconcileBaseline(this.db, this.tableName, archiveDir, baseline, loaded);
+    }
+  }
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+type RunStep =
+  | {
+      [K in keyof MigratorEvents]: { event: K; args: MigratorEvents[K] };
+    }[keyof MigratorEvents]
+  | { migration: string };
+
+/**
+ * The events of a run, with the migrations to run between them, for both
+ * migrators to drive. Pass `next` the error a migration threw, if any.
+ */
+function* migrationRun(
+  migrations: string[],
+  direction: MigrationDirection,
+): Generator<RunStep, string[], unknown> {
+  let runStarted = performance.now();
+  let migrated: string[] = [];
+
+  yield { event: "runStart", args: [{ direction, migrations }] };
+
+  for (let migration of migrations) {
+    let event = { direction, id: migration.split("-")[0], migration };
+    yield { event: "beforeMigration", args: [event] };
+
+    let started = performance.now();
+    let error = yield { migration };
+    if (error) {
+      if (error instanceof MigrationError) {
+        error.completed = [...migrated];
+      }
+      let duration = performance.now() - started;
+      yield {
+        event: "migrationFailed",
+        args: [{ ...event, duration, error: toError(error) }],
+      };
+      throw error;
+    }
+
+    migrated.push(migration);
+    let duration = performance.now() - started;
+    yield { event: "afterMigration", args: [{ ...event, duration }] };
+  }
+
+  let duration = performance.now() - runStarted;
+  yield {
+    event: "runComplete",
+    args: [{ direction, migrations: migrated, duration }],
+  };
+  return migrated;
+}
+
+/**
+ * The pending migrations older than the latest applied one, for the
+ * `outOfOrder` event. Throws when the policy is `error`.
+ */
+function checkOrder(
+  pending: string[],
+  applied: MigrationEntry[],
+  policy: MigratorOptions["outOfOrder"] = "warn",
+) {
+  let latest = applied.at(-1);
+  if (policy === "allow" || !latest) {
+    return null;
+  }
+
+  let older = pending.filter(m => m.split("-")[0] < latest.id);
+  if (older.length === 0) {
+    return null;
+  }
+
+  let latestName = path.dirname(latest.name);
+  if (policy === "error") {
+    throw new Error(
+      `Pending migrations are older than the latest applied migration ${latestName}: ${older.join(", ")}. Rebase them to a new timestamp or allow out of order migrations.`,
+    );
+  }
+  return { migrations: older, latest: latestName };
+}
+
+function pendingMigrations(applied: MigrationEntry[], migrations: string[]) {
+  let ids = applied.map(row => row.id);
+  return migrations.filter(m => !ids.includes(m.split("-")[0]));
+}
+
+/**
+ * The pending migrations up to and including the one matching the `to`
+ * prefix
+ */
+function migrationsUpTo(pending: string[], to?: string) {
+  if (!to) return pending;
+
+  let idx = pending.findIndex(m => m.startsWith(to));
+  if (idx === -1) {
+    throw new Error(`Migration ${to} not found`);
+  }
+  return pending.slice(0, idx + 1);
+}
+
+/**
+ * The applied migrations a rollback undoes, latest first
+ */
+function rollbackEntries(
+  applied: MigrationEntry[],
+  target: RollbackTarget = 1,
+) {
+  if (typeof target === "number") {
+    return target < 1 ? [] : applied.slice(-target).reverse();
+  }
+  return applied.slice(findApplied(applied, target.to) + 1).reverse();
+}
+
+function migrationNames(entries: MigrationEntry[], migrations: string[]) {
+  let map = new Map(migrations.map(f => [f.split("-")[0], f]));
+  return entries.map(entry => {
+    let migration = map.get(entry.id);
+    invariant(migration, `Migration file for ${entry.id} not found`);
+    return migration;
+  });
+}
+
+/**
+ * Baselines in the archive, with where their files are now: still in the
+ * migrations directory, or archived by a later squash
+ */
+function findBaselines(archiveDir: string, migrations: string[]) {
+  let archived = new Map<string, string[]>();
+  for (let baseline of readDirectoriesSync(archiveDir)) {
+    archived.set(
+      baseline,
+      readDirectoriesSync(path.join(archiveDir, baseline)),
+    );
+  }
+
+  let baselines = [...archived.keys()];
+  let found: {
+    name: string;
+    ids: string[];
+    location: string;
+    squashed: string[];
+  }[] = [];
+
+  for (let name of baselines) {
+    // a later squash archives earlier baselines
+    let later = baselines.find(b => archived.get(b)!.includes(name));
+    let location = migrations.includes(name)
+      ? name
+      : later && path.join(ARCHIVE_DIR, later, name);
+    if (!location) continue;
+    let squashed = archived.get(name)!;
+    let ids = squashed.map(m => m.split("-")[0]);
+    found.push({ name, ids, location, squashed });
+  }
+
+  return found;
+}
+
+/**
+ * Swap the records of a baseline's squashed migrations for the baseline when
+ * all of them are applied
+ */
+function reconcileBaseline(
+  db: Database,
+  tableName: string,
+  archiveDir: string,
+  baseline: { name: string; ids: string[] },
+  loaded: LoadedMigration,
+) {
+  let { ids } = baseline;
+  let id = baseline.name.split("-")[0];
+  let name = path.join(baseline.name, path.basename(loaded.upFile));
+
+  db.transaction(() => {
+    let applied = readApplied(db, tableName);
+    if (applied.some(e => e.id === id && e.name === name)) return;
+
+    let done = applied.filter(e => ids.includes(e.id));
+    if (done.length === 0) return;
+    if (done.length < ids.length) {
+      throw new Error(
+        `Only ${done.length} of the ${ids.length} migrations squashed into ${baseline.name} are applied, run \`migralite up\` to apply the rest from ${path.join(archiveDir, baseline.name)}`,
+      );
+    }
+
+    let placeholders = ids.map(() => "?").join(", ");
+    db.prepare(`DELETE FROM ${tableName} WHERE id IN (${placeholders})`).run(
+      ...ids,
+    );
+    db.prepare(
+      `INSERT INTO ${tableName} (id, name, applied_at, up_checksum, down_checksum, down_sql) VALUES (?, ?, ?, ?, ?, ?)`,
+    ).run(
+      id,
+      name,
+      done.at(-1)!.applied_at,
+      loaded.upChecksum,
+      loaded.downChecksum,
+      storedDown(loaded),
+    );
+  }).immediate();
+}
+
+function checkNames(table: string, schema: string) {
+  invariant(/^\w+$/.test(table), `Invalid migrations table name "${table}"`);
+  invariant(/^\w+$/.test(schema), `Invalid schema name "${schema}"`);
+}
+
+function createMigrationsTable(db: Database, schema: string, table: string) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${schema}.${table} (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      up_checksum TEXT,
+      down_checksum TEXT,
+      down_sql TEXT
+    )
+  `);
+
+  // tables created before checksums and down SQL were recorded
+  let columns = db.pragma(`${schema}.table_info(${table})`) as {
+    name: string;
+  }[];
+  for (let column of ["up_checksum", "down_checksum", "down_sql"]) {
+    if (!columns.some(c => c.name === column)) {
+      db.exec(`ALTER TABLE ${schema}.${table} ADD COLUMN ${column} TEXT`);
+    }
+  }
+}
+
+function readApplied(db: Database, tableName: string) {
+  return db
+    .prepare(
+      `SELECT id, name, applied_at, up_checksum, down_checksum FROM ${tableName} ORDER BY id`,
+    )
+    .all() as MigrationEntry[];
+}
+
+function prepareMigration(loaded: SourceMigration): LoadedMigration {
+  let { up, down, upFile, downFile } = loaded;
+
+  // function steps are checksummed together, like a module's source
+  let functions = checksum(
+    loaded.checksum ??
+      [up, down]
+        .filter(step => typeof step === "function")
+        .map(String)
+        .join("\n"),
+  );
+  let settings = { ...DEFAULT_SETTINGS, ...loaded.settings };
+
+  return {
+    up,
+    down,
+    upFile,
+    downFile,
+    upChecksum: typeof up === "string" ? checksum(up) : functions,
+    downChecksum: typeof down === "string" ? checksum(down) : functions,
+    upSettings: typeof up === "string" ? readDirectives(up, upFile) : settings,
+    downSettings:
+      typeof down === "string" ? readDirectives(down, downFile) : settings,
+  };
+}
+
+function applyMigration(
+  db: Database,
+  schema: string,
+  tableName: string,
+  migration: string,
+  direction: MigrationDirection,
+  loaded: LoadedMigration,
+) {
+  let step = direction === "up" ? loaded.up : loaded.down;
+  let settings = direction === "up" ? loaded.upSettings : loaded.downSettings;
+  let id = migration.split("-")[0];
+
+  let run = () => {
+    runStep(db, step, migration);
+    if (!settings.foreignKeys) {
+      checkForeignKeys(db, schema);
+    }
+
+    if (direction === "up") {
+      db.prepare(
+        `INSERT INTO ${tableName} (id, name, applied_at, up_checksum, down_checksum, down_sql) VALUES (?, ?, ?, ?, ?, ?)`,
+      ).run(
+        id,
+        loaded.upFile,
+        new Date().toISOString(),
+        loaded.upChecksum,
+        loaded.downChecksum,
+        storedDown(loaded),
+      );
+    } else {
+      db.prepare(`DELETE FROM ${tableName} WHERE id = ?`).run(id);
+    }
+  };
+
+  withForeignKeysOff(db, !settings.foreignKeys, () => {
+    if (settings.transaction) {
+      db.transaction(run)();
+    } else {
+      run();
+    }
+  });
+}
+
+/**
+ * Run `fn` with foreign keys turned off when `off` is set and they're on,
+ * turning them back on once it settles. PRAGMA foreign_keys does nothing
+ * inside a transaction, so callers turn them off before opening one, and a
+ * dry run's already open transaction is left alone.
+ */
+function withForeignKeysOff<T>(db: Database, off: boolean, fn: () => T): T {
+  let disable = off && !db.inTransaction && foreignKeysOn(db);
+  if (disable) {
+    db.pragma("foreign_keys = OFF");
+  }
+  let restore = () => {
+    if (disable) {
+      db.pragma("foreign_keys = ON");
+    }
+  };
+
+  let result: T;
+  try {
+    result = fn();
+  } catch (error) {
+    restore();
+    throw error;
+  }
+  if (result instanceof Promise) {
+    return result.finally(restore) as T;
+  }
+  restore();
+  return result;
+}
+
+function migrationStatus(
+  applied: MigrationEntry[],
+  migrations: string[],
+): MigrationStatus[] {
+  let map = new Map(migrations.map(f => [f.split("-")[0], f]));
+  let status: MigrationStatus[] = [];
+
+  // applied_at of the earliest migration applied after each entry by id
+  let earliestLater: string | null = null;
+  for (let entry of [...applied].reverse()) {
+    let migration = map.get(entry.id);
+    map.delete(entry.id);
+
+    let state: MigrationStatus["state"] = "applied";
+    if (!migration) {
+      state = "missing";
+    } else if (earliestLater !== null && entry.applied_at > earliestLater) {
+      state = "applied-out-of-order";
+    }
+
+    if (earliestLater === null || entry.applied_at < earliestLater) {
+      earliestLater = entry.applied_at;
+    }
+
+    status.push({
+      id: entry.id,
+      migration: migration ?? path.dirname(entry.name),
+      state,
+      applied_at: entry.applied_at,
+    });
+  }
+
+  let latest = applied.at(-1)?.id;
+  for (let [id, migration] of map) {
+    let state: MigrationStatus["state"] =
+      latest && id < latest ? "pending-out-of-order" : "pending";
+    status.push({ id, migration, state, applied_at: null });
+  }
+
+  return status.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function sanitizeName(name: string) {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-") // Replace non-alphanumeric chars with dash
+    .replace(/^-+|-+$/g, "") // Remove leading/trailing dashes
+    .replace(/-{2,}/g, "-"); // Replace multiple dashes with single dash
+}
+
+function runStep(db: Database, step: MigrationStep, migration: string) {
+  if (typeof step === "string") {
+    execStatements(db, step);
+    return;
+  }
+
+  let result = step(db);
+  if (result instanceof Promise) {
+    // keep the rejection from going unhandled, the transaction is rolled back
+    result.catch(() => {});
+    throw new Error(
+      `Migration ${migration} returned a promise, migration functions must be synchronous`,
+    );
+  }
+}
+
+/**
+ * Settings from `-- migralite: ...` comments before the first statement
+ */
+function readDirectives(sql: string, file: string): MigrationSettings {
+  let settings = { ...DEFAULT_SETTINGS };
+
+  for (let line of sql.split("\n")) {
+    line = line.trim();
+    if (line && !line.startsWith("--")) break;
+
+    let match = line.match(/^--\s*migralite:(.*)$/i);
+    if (!match) continue;
+    for (let directive of match[1].split(/[\s,]+/).filter(Boolean)) {
+      if (!Object.hasOwn(DIRECTIVES, directive)) {
+        throw new Error(
+          `Unknown directive "${directive}" in ${file}, expected one of ${Object.keys(DIRECTIVES).join(", ")}`,
+        );
+      }
+      Object.assign(settings, DIRECTIVES[directive]);
+    }
+  }
+
+  return settings;
+}
+
+function foreignKeysOn(db: Database) {
+  return db.pragma("foreign_keys", { simple: true }) === 1;
+}
+
+function checkForeignKeys(db: Database, schema: string) {
+  let violations = db.pragma(`${schema}.foreign_key_check`) as {
+    table: string;
+    rowid: number | null;
+    parent: string;
+  }[];
+  if (violations.length === 0) return;
+
+  let [first] = violations;
+  throw new Error(
+    `Foreign key check failed with ${violations.length} violation(s), first in ${first.table} (rowid ${first.rowid}) referencing ${first.parent}`,
+  );
+}
+
+function readDirectoriesSync(dir: string) {
+  try {
+    let entries = fsSync.readdirSync(dir, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function readDirectories(dir: string) {
+  try {
+    let entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+/**
+ * INSERT statements for the rows in each table, so a baseline keeps data the
+ * squashed migrations inserted
+ */
+function dumpRows(db: Database, objects: SchemaObject[]) {
+  let inserts: string[] = [];
+  for (let { name } of objects.filter(o => o.type === "table")) {
+    let columns = (
+      db.pragma(`table_info("${name}")`) as { name: string }[]
+    ).map(c => `"${c.name}"`);
+    // quote() renders each value as a SQL literal
+    let values = columns.map(c => `quote(${c})`).join(" || ', ' || ");
+    let rows = db
+      .prepare(`SELECT ${values} FROM "${name}"`)
+      .pluck()
+      .all() as string[];
+    for (let row of rows) {
+      inserts.push(
+        `INSERT INTO "${name}" (${columns.join(", ")}) VALUES (${row});\n`,
+      );
+    }
+  }
+  return inserts.join("");
+}
+
+function dropObjects(objects: SchemaObject[]) {
+  return [...objects]
+    .reverse()
+    .filter(o => o.type !== "index")
+    .map(o => `DROP ${o.type.toUpperCase()} "${o.name}";\n`)
+    .join("");
+}
+
+function findApplied(applied: MigrationEntry[], to: string) {
+  let idx = applied.findIndex(entry => path.dirname(entry.name).startsWith(to));
+  if (idx === -1) {
+    throw new Error(`Migration ${to} is not applied`);
+  }
+  return idx;
+}
+
+function toError(error: unknown) {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+function quote(value: string | null) {
+  return value === null ? "NULL" : `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Identifies a set of applied migrations, so a plan can tell whether the
+ * database is still where it started
+ */
+function fingerprint(applied: MigrationEntry[]) {
+  return checksum(
+    applied
+      .map(entry => `${entry.id}:${entry.up_checksum}:${entry.down_checksum}`)
+      .join("\n"),
+  );
+}
+
+// the down SQL `reapplyLatest` rolls back with after the files change
+function storedDown(loaded: LoadedMigration) {
+  return typeof loaded.down === "string" ? loaded.down : null;
+}
+
+function checksum(sql: string) {
+  return crypto.createHash("sha256").update(sql).digest("hex");
+}
+
+function timestamp() {
+  return new Date().toISOString().replace(/\D/g, "").slice(0, 14);
 }
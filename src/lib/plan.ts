@@ -0,0 +1,118 @@
+import { type Database } from "better-sqlite3";
+import { splitStatements, StatementError } from "./sql.ts";
+import type { MigrationDirection, MigrationSettings } from "./migrate.ts";
+
+export type MigrationPlan = {
+  direction: MigrationDirection;
+  /** Fingerprint of the applied migrations the plan starts from */
+  from: string;
+  migrations: string[];
+  /** The SQL script `applyPlan` runs, with a header describing the plan */
+  sql: string;
+};
+
+export type PlanStep = {
+  migration: string;
+  sql: string;
+  settings: MigrationSettings;
+  /** Records or removes the migration in the migrations table */
+  bookkeeping: string;
+  /** Attached database the migration applies to */
+  schema: string;
+};
+
+type PlanHeader = Pick<MigrationPlan, "direction" | "from" | "migrations">;
+
+const PLAN_MARKER = "-- migralite plan";
+
+/**
+ * Render migrations as one SQL script, each in its own transaction unless it
+ * opted out, so the script runs the same statements `up` or `rollback` would
+ */
+export function formatPlan(header: PlanHeader, steps: PlanStep[]) {
+  let lines = [
+    PLAN_MARKER,
+    `-- direction: ${header.direction}`,
+    `-- from: ${header.from}`,
+    `-- migrations: ${header.migrations.join(", ")}`,
+  ];
+
+  for (let step of steps) {
+    let { transaction, foreignKeys } = step.settings;
+    lines.push("", `-- ${step.migration} (${header.direction})`);
+    if (!foreignKeys) lines.push("PRAGMA foreign_keys = OFF;");
+    if (transaction) lines.push("BEGIN;");
+    for (let statement of splitStatements(step.sql)) {
+      lines.push(`${statement.sql};`);
+    }
+    if (!foreignKeys) lines.push(`PRAGMA ${step.schema}.foreign_key_check;`);
+    lines.push(`${step.bookkeeping};`);
+    if (transaction) lines.push("COMMIT;");
+    if (!foreignKeys) lines.push("PRAGMA foreign_keys = ON;");
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Read the header `formatPlan` wrote
+ */
+export function readPlanHeader(sql: string): PlanHeader {
+  let lines = sql.split("\n");
+  if (lines[0].trim() !== PLAN_MARKER) {
+    throw new Error("Not a migralite plan, expected it to start with a header");
+  }
+
+  let values = new Map<string, string>();
+  for (let line of lines.slice(1)) {
+    let match = line.match(/^--\s*(\w+):\s*(.*)$/);
+    if (!match) break;
+    values.set(match[1], match[2].trim());
+  }
+
+  let direction = values.get("direction");
+  let from = values.get("from");
+  if ((direction !== "up" && direction !== "down") || !from) {
+    throw new Error("Plan header is missing its direction or starting point");
+  }
+
+  return {
+    direction,
+    from,
+    migrations: (values.get("migrations") ?? "").split(", ").filter(Boolean),
+  };
+}
+
+/**
+ * Run a plan's statements one at a time. A failing statement or foreign key
+ * check rolls back the open transaction, migrations committed earlier in the
+ * plan stay applied.
+ */
+export function execPlan(db: Database, sql: string) {
+  let foreignKeys = db.pragma("foreign_keys", { simple: true });
+
+  try {
+    for (let statement of splitStatements(sql)) {
+      try {
+        let prepared = db.prepare(statement.sql);
+        if (!prepared.reader) {
+          prepared.run();
+          continue;
+        }
+
+        let rows = prepared.all();
+        let check = /^PRAGMA\s+(\w+\.)?foreign_key_check/i;
+        if (check.test(statement.sql) && rows.length > 0) {
+          throw new Error(
+            `Foreign key check failed with ${rows.length} violation(s)`,
+          );
+        }
+      } catch (error) {
+        if (db.inTransaction) db.exec("ROLLBACK");
+        throw new StatementError(error, statement);
+      }
+    }
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys ? "ON" : "OFF"}`);
+  }
+}
@@ -0,0 +1,114 @@
+import assert from "node:assert";
+import { test, describe } from "node:test";
+import Database from "better-sqlite3";
+import {
+  diffSchema,
+  formatSchema,
+  isSchemaDiffEmpty,
+  readSchema,
+} from "./schema.ts";
+
+describe("readSchema", () => {
+  test("sorts objects by type and name", () => {
+    let db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+      CREATE TRIGGER users_touch AFTER UPDATE ON users BEGIN SELECT 1; END;
+      CREATE VIEW active_users AS SELECT * FROM users;
+      CREATE INDEX users_name ON users (name);
+      CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT);
+    `);
+
+    let schema = readSchema(db);
+    assert.deepEqual(
+      schema.map(o => [o.type, o.name]),
+      [
+        ["table", "posts"],
+        ["table", "users"],
+        ["index", "users_name"],
+        ["view", "active_users"],
+        ["trigger", "users_touch"],
+      ],
+    );
+  });
+
+  test("leaves out internal and ignored objects", () => {
+    let db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT UNIQUE);
+      CREATE TABLE _migralite (id TEXT PRIMARY KEY);
+      CREATE INDEX _migralite_idx ON _migralite (id);
+    `);
+
+    let schema = readSchema(db, ["_migralite"]);
+    assert.deepEqual(
+      schema.map(o => o.name),
+      ["users"],
+    );
+  });
+
+  test("normalizes whitespace", () => {
+    let db = new Database(":memory:");
+    db.exec("CREATE TABLE users (\n  id INTEGER,   \n  name TEXT\n)");
+
+    let [users] = readSchema(db);
+    assert.equal(
+      users.sql,
+      "CREATE TABLE users (\n  id INTEGER,\n  name TEXT\n)",
+    );
+  });
+});
+
+test("formatSchema", () => {
+  let db = new Database(":memory:");
+  db.exec(`
+    CREATE TABLE users (id INTEGER, name TEXT);
+    CREATE INDEX users_name ON users (name);
+  `);
+
+  assert.equal(
+    formatSchema(readSchema(db)),
+    "CREATE TABLE users (id INTEGER, name TEXT);\n\nCREATE INDEX users_name ON users (name);\n",
+  );
+});
+
+describe("diffSchema", () => {
+  test("reports added, removed and changed objects", () => {
+    let db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER, name TEXT);
+      CREATE TABLE posts (id INTEGER);
+    `);
+    let before = readSchema(db);
+
+    db.exec(`
+      DROP TABLE posts;
+      ALTER TABLE users ADD COLUMN email TEXT;
+      CREATE INDEX users_name ON users (name);
+    `);
+    let after = readSchema(db);
+
+    let diff = diffSchema(before, after);
+    assert.deepEqual(
+      diff.added.map(o => o.name),
+      ["users_name"],
+    );
+    assert.deepEqual(
+      diff.removed.map(o => o.name),
+      ["posts"],
+    );
+    assert.deepEqual(
+      diff.changed.map(c => c.after.name),
+      ["users"],
+    );
+    assert.equal(isSchemaDiffEmpty(diff), false);
+  });
+
+  test("identical schemas have an empty diff", () => {
+    let db = new Database(":memory:");
+    db.exec("CREATE TABLE users (id INTEGER, name TEXT)");
+
+    let diff = diffSchema(readSchema(db), readSchema(db));
+    assert.equal(isSchemaDiffEmpty(diff), true);
+  });
+});
@@ -0,0 +1,122 @@
+import { type Database } from "better-sqlite3";
+
+export type SchemaObject = {
+  type: "table" | "index" | "view" | "trigger";
+  name: string;
+  tbl_name: string;
+  sql: string;
+};
+
+export type SchemaDiff = {
+  added: SchemaObject[];
+  removed: SchemaObject[];
+  changed: { before: SchemaObject; after: SchemaObject }[];
+};
+
+const TYPE_ORDER = ["table", "index", "view", "trigger"];
+
+/**
+ * Read the tables, indexes, views and triggers from `sqlite_master` in a
+ * stable order, leaving out SQLite's internal objects.
+ *
+ * @param ignore Tables to leave out, along with their indexes and triggers
+ * @param schema Attached database to read, defaults to `main`
+ */
+export function readSchema(
+  db: Database,
+  ignore: string[] = [],
+  schema = "main",
+): SchemaObject[] {
+  let rows = db
+    .prepare(
+      `SELECT type, name, tbl_name, sql FROM ${schema}.sqlite_master WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%'`,
+    )
+    .all() as SchemaObject[];
+
+  return rows
+    .filter(row => !ignore.includes(row.tbl_name))
+    .map(row => ({ ...row, sql: normalizeSql(row.sql) }))
+    .sort(
+      (a, b) =>
+        TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) ||
+        a.name.localeCompare(b.name),
+    );
+}
+
+export function formatSchema(objects: SchemaObject[]) {
+  return objects.map(object => `${object.sql};\n`).join("\n");
+}
+
+/**
+ * Compare two schemas read with `readSchema`, matching objects by type and
+ * name.
+ */
+export function diffSchema(
+  before: SchemaObject[],
+  after: SchemaObject[],
+): SchemaDiff {
+  let key = (object: SchemaObject) => `${object.type}:${object.name}`;
+  let beforeMap = new Map(before.map(object => [key(object), object]));
+  let afterMap = new Map(after.map(object => [key(object), object]));
+  let diff: SchemaDiff = { added: [], removed: [], changed: [] };
+
+  for (let object of after) {
+    let previous = beforeMap.get(key(object));
+    if (!previous) {
+      diff.added.push(object);
+    } else if (!sameSql(previous, object)) {
+      diff.changed.push({ before: previous, after: object });
+    }
+  }
+
+  for (let object of before) {
+    if (!afterMap.has(key(object))) {
+      diff.removed.push(object);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Whether two objects have the same SQL, ignoring whitespace and how a
+ * table's name is quoted
+ */
+export function sameSql(a: SchemaObject, b: SchemaObject) {
+  return comparableSql(a) === comparableSql(b);
+}
+
+export function isSchemaDiffEmpty(diff: SchemaDiff) {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0
+  );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+function normalizeSql(sql: string) {
+  return sql
+    .split("\n")
+    .map(line => line.trimEnd())
+    .join("\n")
+    .trim()
+    .replace(/;$/, "");
+}
+
+function comparableSql(object: SchemaObject) {
+  let sql = object.sql;
+  if (object.type === "table") {
+    // renaming a rebuilt table into place quotes its name in the stored SQL
+    sql = sql.replace(
+      /^(CREATE\s+TABLE\s+)("(?:[^"]|"")+"|`[^`]+`|\[[^\]]+\]|[^\s(]+)/i,
+      `$1"${object.name.replace(/"/g, '""')}"`,
+    );
+  }
+  // ALTER TABLE leaves its own formatting in the stored SQL
+  return sql
+    .replace(/\s+/g, " ")
+    .replace(/\s*([(),])\s*/g, "$1")
+    .trim();
+}
@@ -0,0 +1,88 @@
+import assert from "node:assert";
+import { afterEach, test, describe } from "node:test";
+import fs from "node:fs/promises";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { Seeder } from "./seed.ts";
+
+const TEST_DIR = await fs.mkdtemp("test");
+
+afterEach(async () => {
+  await fs.rm(TEST_DIR, { recursive: true, force: true });
+});
+
+async function write(file: string, contents: string) {
+  let filePath = path.join(TEST_DIR, file);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, contents);
+}
+
+function usersDb() {
+  let db = new Database(":memory:");
+  db.exec("CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)");
+  return db;
+}
+
+describe("Seeder", () => {
+  test("runs SQL and module seeds once, in order", async () => {
+    let db = usersDb();
+    await write("01-users.sql", "INSERT INTO users (name) VALUES ('ada');");
+    await write(
+      "02-more-users.js",
+      "export function seed(db) { db.prepare(\"INSERT INTO users (name) VALUES ('grace')\").run(); }",
+    );
+    let seeder = new Seeder(db, TEST_DIR);
+
+    assert.deepEqual(await seeder.run(), ["01-users", "02-more-users"]);
+    assert.deepEqual(await seeder.run(), []);
+    assert.deepEqual(await seeder.getPendingSeeds(), []);
+    assert.deepEqual(
+      db.prepare("SELECT name FROM users ORDER BY id").pluck().all(),
+      ["ada", "grace"],
+    );
+  });
+
+  test("runs the current environment's seeds after the shared ones", async () => {
+    let db = usersDb();
+    await write("users.sql", "INSERT INTO users (name) VALUES ('ada');");
+    await write("dev/demo.sql", "INSERT INTO users (name) VALUES ('demo');");
+    await write("test/fixtures.sql", "INSERT INTO users (name) VALUES ('x');");
+
+    assert.deepEqual(await new Seeder(db, TEST_DIR).getSeeds(), ["users"]);
+    assert.deepEqual(await new Seeder(db, TEST_DIR, { env: "dev" }).run(), [
+      "users",
+      "dev/demo",
+    ]);
+  });
+
+  test("runs seeds by name and reruns them with reset", async () => {
+    let db = usersDb();
+    await write("01-users.sql", "INSERT INTO users (name) VALUES ('ada');");
+    await write("02-posts.sql", "SELECT 1;");
+    let seeder = new Seeder(db, TEST_DIR);
+
+    assert.deepEqual(await seeder.run("01"), ["01-users"]);
+    assert.deepEqual(await seeder.run("01-users"), []);
+    assert.deepEqual(await seeder.reset("01"), ["01-users"]);
+    assert.equal(db.prepare("SELECT count(*) FROM users").pluck().get(), 2);
+    assert.deepEqual(await seeder.getPendingSeeds(), ["02-posts"]);
+
+    await assert.rejects(seeder.run("03"), /Seed 03 not found/);
+  });
+
+  test("rolls back failed seeds", async () => {
+    let db = usersDb();
+    await write(
+      "users.sql",
+      "INSERT INTO users (name) VALUES ('ada');\nINSERT INTO nope VALUES (1);",
+    );
+    let seeder = new Seeder(db, TEST_DIR);
+
+    await assert.rejects(
+      seeder.run(),
+      /Seed users failed: .*no such table: nope/,
+    );
+    assert.equal(db.prepare("SELECT count(*) FROM users").pluck().get(), 0);
+    assert.deepEqual(seeder.getRunSeeds(), []);
+  });
+});
@@ -0,0 +1,214 @@
+import path from "path";
+import fs from "fs/promises";
+import crypto from "crypto";
+import { type Database } from "better-sqlite3";
+import { pathToFileURL } from "url";
+import invariant from "tiny-invariant";
+import { execStatements } from "./sql.ts";
+
+export type SeederOptions = {
+  /** Also run the seeds in `<dir>/<env>`, like `dev` or `test` */
+  env?: string;
+  /** Table run seeds are recorded in, defaults to `_migralite_seeds` */
+  table?: string;
+};
+
+/**
+ * A `.js` or `.ts` seed file exports `seed(db)`. It runs inside the seed's
+ * transaction, so it must be synchronous.
+ */
+export type SeedModule = {
+  seed: (db: Database) => void;
+};
+
+export type SeedEntry = {
+  name: string;
+  run_at: string;
+};
+
+const SEED_EXTENSIONS = [".sql", ".js", ".ts"];
+
+export const DEFAULT_SEEDS_TABLE = "_migralite_seeds";
+
+/**
+ * Loads fixture data from a seeds directory, separate from the schema
+ * migrations. Seeds run once each and are recorded in their own table.
+ * Seeds in a subdirectory named after the environment run after the shared
+ * ones, other subdirectories are ignored.
+ */
+export class Seeder {
+  public db: Database;
+  public dir: string;
+  public options: SeederOptions;
+
+  constructor(db: Database, dir: string, options: SeederOptions = {}) {
+    this.db = db;
+    this.dir = dir;
+    this.options = options;
+    invariant(
+      /^\w+$/.test(this.table),
+      `Invalid seeds table name "${this.table}"`,
+    );
+    this.initDb();
+  }
+
+  get table() {
+    return this.options.table ?? DEFAULT_SEEDS_TABLE;
+  }
+
+  /**
+   * Run the seeds that haven't run yet
+   *
+   * @param name Only run seeds whose name or file name starts with this
+   * @returns The seeds that ran
+   */
+  async run(name?: string): Promise<string[]> {
+    let run = new Set(this.getRunSeeds().map(entry => entry.name));
+    let seeds = await this.resolve(name);
+    return this.runSeeds(seeds.filter(seed => !run.has(seed)));
+  }
+
+  /**
+   * Run seeds again, whether or not they ran before
+   *
+   * @param name Only rerun seeds whose name or file name starts with this
+   * @returns The seeds that ran
+   */
+  async reset(name?: string): Promise<string[]> {
+    return this.runSeeds(await this.resolve(name));
+  }
+
+  /**
+   * The seeds for the current environment in the order they run, named by
+   * their path in the seeds directory without the extension, like `users`
+   * or `dev/demo-accounts`
+   */
+  async getSeeds(): Promise<string[]> {
+    let shared = await readSeeds(this.dir);
+    let scoped = this.options.env
+      ? await readSeeds(path.join(this.dir, this.options.env))
+      : [];
+
+    return [
+      ...shared,
+      ...scoped.map(seed => path.posix.join(this.options.env!, seed)),
+    ];
+  }
+
+  async getPendingSeeds(): Promise<string[]> {
+    let run = new Set(this.getRunSeeds().map(entry => entry.name));
+    return (await this.getSeeds()).filter(seed => !run.has(seed));
+  }
+
+  getRunSeeds(): SeedEntry[] {
+    return this.db
+      .prepare(`SELECT name, run_at FROM ${this.table} ORDER BY run_at, name`)
+      .all() as SeedEntry[];
+  }
+
+  private async resolve(name?: string) {
+    let seeds = await this.getSeeds();
+    if (!name) return seeds;
+
+    let matched = seeds.filter(
+      seed =>
+        seed.startsWith(name) || path.posix.basename(seed).startsWith(name),
+    );
+    if (matched.length === 0) {
+      throw new Error(`Seed ${name} not found`);
+    }
+    return matched;
+  }
+
+  private async runSeeds(seeds: string[]) {
+    for (let seed of seeds) {
+      try {
+        await this.runSeed(seed);
+      } catch (error) {
+        let message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Seed ${seed} failed: ${message}`, { cause: error });
+      }
+    }
+    return seeds;
+  }
+
+  private async runSeed(seed: string) {
+    let file = await this.seedFile(seed);
+    let source = await fs.readFile(file, "utf8");
+    let run: (db: Database) => unknown;
+
+    if (file.endsWith(".sql")) {
+      run = db => execStatements(db, source);
+    } else {
+      let sum = crypto.createHash("sha256").update(source).digest("hex");
+      // the checksum busts the module cache when the file changes
+      let url = `${pathToFileURL(path.resolve(file)).href}?${sum}`;
+      let mod = (await import(url)) as Partial<SeedModule>;
+      invariant(
+        typeof mod.seed === "function",
+        `${path.relative(this.dir, file)} must export a \`seed\` function`,
+      );
+      run = mod.seed;
+    }
+
+    let db = this.db;
+    db.transaction(() => {
+      let result = run(db);
+      if (result instanceof Promise) {
+        // keep the rejection from going unhandled, the transaction is rolled back
+        result.catch(() => {});
+        throw new Error("Seed functions must be synchronous");
+      }
+
+      db.prepare(
+        `INSERT OR REPLACE INTO ${this.table} (name, run_at) VALUES (?, ?)`,
+      ).run(seed, new Date().toISOString());
+    })();
+  }
+
+  private async seedFile(seed: string) {
+    let base = path.join(this.dir, seed);
+    let files = await fs.readdir(path.dirname(base));
+    let matches = SEED_EXTENSIONS.filter(ext =>
+      files.includes(path.basename(base) + ext),
+    );
+    invariant(matches.length > 0, `Seed file for ${seed} not found`);
+    if (matches.length > 1) {
+      throw new Error(
+        `Seed ${seed} has more than one file: ${matches.map(ext => seed + ext).join(", ")}`,
+      );
+    }
+    return base + matches[0];
+  }
+
+  private initDb() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.table} (
+        name TEXT PRIMARY KEY,
+        run_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  }
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+async function readSeeds(dir: string) {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  let names = entries
+    .filter(
+      entry =>
+        entry.isFile() &&
+        !entry.name.endsWith(".d.ts") &&
+        SEED_EXTENSIONS.includes(path.extname(entry.name)),
+    )
+    .map(entry => entry.name.slice(0, -path.extname(entry.name).length));
+  return [...new Set(names)].sort();
+}
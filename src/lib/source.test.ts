@@ -0,0 +1,124 @@
+import assert from "node:assert";
+import { afterEach, test, describe } from "node:test";
+import fs from "node:fs/promises";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { Migrator } from "./migrate.ts";
+import { arraySource, directorySource, globSource } from "./source.ts";
+
+const TEST_DIR = await fs.mkdtemp("test");
+
+afterEach(async () => {
+  await fs.rm(TEST_DIR, { recursive: true, force: true });
+});
+
+function tables(db: Database.Database) {
+  return db
+    .prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT GLOB '_*' ORDER BY name",
+    )
+    .pluck()
+    .all();
+}
+
+describe("arraySource", () => {
+  test("migrates up and rolls back without a directory", async () => {
+    let db = new Database(":memory:");
+    let migrator = new Migrator(
+      db,
+      arraySource([
+        {
+          id: "02",
+          name: "add-posts",
+          up: db => db.exec("CREATE TABLE posts (id INTEGER)"),
+          down: db => db.exec("DROP TABLE posts"),
+        },
+        {
+          id: "01",
+          name: "add-users",
+          up: "CREATE TABLE users (id INTEGER)",
+          down: "DROP TABLE users",
+        },
+      ]),
+    );
+    assert.equal(migrator.dir, null);
+
+    assert.deepEqual(await migrator.up(), ["01-add-users", "02-add-posts"]);
+    assert.deepEqual(tables(db), ["posts", "users"]);
+    assert.deepEqual(
+      (await migrator.status()).map(s => [s.migration, s.state]),
+      [
+        ["01-add-users", "applied"],
+        ["02-add-posts", "applied"],
+      ],
+    );
+    assert.deepEqual(await migrator.verify(), []);
+
+    assert.deepEqual(await migrator.rollback(), ["02-add-posts"]);
+    assert.deepEqual(tables(db), ["users"]);
+
+    await assert.rejects(
+      migrator.create("add tags", "", ""),
+      /create needs a migrations directory/,
+    );
+  });
+
+  test("rejects invalid and duplicate ids", () => {
+    let step = { up: "", down: "" };
+    assert.throws(
+      () => arraySource([{ id: "2024-01", name: "a", ...step }]),
+      /Invalid migration id "2024-01"/,
+    );
+    assert.throws(
+      () =>
+        arraySource([
+          { id: "01", name: "a", ...step },
+          { id: "01", name: "b", ...step },
+        ]),
+      /Duplicate migration id 01/,
+    );
+  });
+});
+
+describe("globSource", () => {
+  test("groups files by migration and matches directory checksums", async () => {
+    let up = "CREATE TABLE users (id INTEGER)";
+    let down = "DROP TABLE users";
+    await fs.mkdir(path.join(TEST_DIR, "01-add-users"), { recursive: true });
+    await fs.writeFile(path.join(TEST_DIR, "01-add-users", "+.sql"), up);
+    await fs.writeFile(path.join(TEST_DIR, "01-add-users", "-.sql"), down);
+
+    let source = globSource({
+      "./migrations/01-add-users/+.sql": up,
+      "./migrations/01-add-users/-.sql": async () => down,
+      "./migrations/02-backfill/migration.ts": async () => ({
+        up: () => {},
+        down: () => {},
+      }),
+      "./migrations/.archive/00-baseline/+.sql": "",
+      "./migrations/README.md": "",
+    });
+    assert.deepEqual(await source.list(), ["01-add-users", "02-backfill"]);
+
+    let db = new Database(":memory:");
+    await new Migrator(db, source).up();
+    let fromDisk = new Database(":memory:");
+    await new Migrator(fromDisk, directorySource(TEST_DIR)).up();
+
+    let checksums = (db: Database.Database) =>
+      db
+        .prepare("SELECT name, up_checksum, down_checksum FROM _migralite")
+        .all();
+    assert.deepEqual(checksums(db)[0], checksums(fromDisk)[0]);
+    assert.equal(checksums(db).length, 2);
+
+    assert.throws(
+      () => source.loadSync!("01-add-users"),
+      /01-add-users\/-\.sql is imported lazily/,
+    );
+    await assert.rejects(
+      globSource({ "01-add-users/+.sql": up }).load("01-add-users"),
+      /Migration 01-add-users needs \+\.sql and -\.sql as text/,
+    );
+  });
+});
@@ -0,0 +1,292 @@
+import path from "path";
+import fs from "fs/promises";
+import fsSync from "fs";
+import crypto from "crypto";
+import { pathToFileURL } from "url";
+import { type Database } from "better-sqlite3";
+import invariant from "tiny-invariant";
+import type { MigrationModule, MigrationSettings } from "./migrate.ts";
+
+export type MigrationStep = string | ((db: Database) => unknown);
+
+/**
+ * A migration as a source provides it. SQL steps are checksummed by their
+ * text, so the same SQL gives the same checksums from any source.
+ */
+export type SourceMigration = {
+  up: MigrationStep;
+  down: MigrationStep;
+  /**
+   * Where each step comes from, like `01-add-users/+.sql`. `upFile` is
+   * recorded in the migrations table and both show up in errors.
+   */
+  upFile: string;
+  downFile: string;
+  /** Text checksummed for function steps, defaults to the functions' source */
+  checksum?: string;
+  /** Settings for function steps, SQL steps read their directives */
+  settings?: Partial<MigrationSettings>;
+};
+
+/**
+ * Where a `Migrator` reads migrations from
+ */
+export interface MigrationSource {
+  /** Migration names like `20240101120000-add-users`, sorted by id */
+  list(): Promise<string[]>;
+  load(migration: string): Promise<SourceMigration>;
+  /** Synchronous `list` and `load`, needed by `MigratorSync` */
+  listSync?(): string[];
+  loadSync?(migration: string): SourceMigration;
+  /**
+   * Directory the migrations are files in. Only sources with a directory
+   * support `create`, `rebase` and `squash`.
+   */
+  dir?: string;
+}
+
+export type MigrationDefinition = {
+  /** Timestamp id like `20240101120000`, migrations run in id order */
+  id: string;
+  /** Name like `add-users` */
+  name: string;
+  up: MigrationStep;
+  down: MigrationStep;
+  settings?: Partial<MigrationSettings>;
+};
+
+type GlobValue = string | Partial<MigrationModule>;
+
+export type GlobFiles = Record<string, GlobValue | (() => Promise<GlobValue>)>;
+
+const MODULE_FILES = ["migration.ts", "migration.js"];
+
+/**
+ * Read migrations from `<dir>/<id>-<name>/`, either `+.sql` and `-.sql` files
+ * or a `migration.ts` or `migration.js` module
+ */
+export function directorySource(dir: string): MigrationSource {
+  let sqlFiles = (migration: string) => ({
+    upFile: path.join(migration, "+.sql"),
+    downFile: path.join(migration, "-.sql"),
+  });
+
+  return {
+    dir,
+
+    async list() {
+      let entries = await fs.readdir(dir, { withFileTypes: true });
+      return migrationDirectories(entries);
+    },
+
+    listSync() {
+      let entries = fsSync.readdirSync(dir, { withFileTypes: true });
+      return migrationDirectories(entries);
+    },
+
+    async load(migration) {
+      let files = await fs.readdir(path.join(dir, migration));
+      let moduleFile = findModuleFile(migration, files);
+
+      if (!moduleFile) {
+        let { upFile, downFile } = sqlFiles(migration);
+        let [up, down] = await Promise.all([
+          fs.readFile(path.join(dir, upFile), "utf8"),
+          fs.readFile(path.join(dir, downFile), "utf8"),
+        ]);
+        return { up, down, upFile, downFile };
+      }
+
+      let file = path.join(migration, moduleFile);
+      let source = await fs.readFile(path.join(dir, file), "utf8");
+      // the source's hash busts the module cache when the file changes
+      let hash = crypto.createHash("sha256").update(source).digest("hex");
+      let url = `${pathToFileURL(path.resolve(dir, file)).href}?${hash}`;
+      let mod = (await import(url)) as Partial<MigrationModule>;
+      return moduleMigration(mod, file, source);
+    },
+
+    loadSync(migration) {
+      let files = fsSync.readdirSync(path.join(dir, migration));
+      let moduleFile = findModuleFile(migration, files);
+      if (moduleFile) {
+        throw new Error(
+          `${path.join(migration, moduleFile)} is a module, which can't be loaded synchronously`,
+        );
+      }
+
+      let { upFile, downFile } = sqlFiles(migration);
+      let up = fsSync.readFileSync(path.join(dir, upFile), "utf8");
+      let down = fsSync.readFileSync(path.join(dir, downFile), "utf8");
+      return { up, down, upFile, downFile };
+    },
+  };
+}
+
+/**
+ * Serve migrations defined in code, for bundled apps that can't read a
+ * migrations directory at runtime
+ */
+export function arraySource(
+  definitions: MigrationDefinition[],
+): MigrationSource {
+  let migrations = new Map<string, MigrationDefinition>();
+  let ids = new Set<string>();
+  for (let definition of definitions) {
+    invariant(
+      /^\w+$/.test(definition.id),
+      `Invalid migration id "${definition.id}", expected letters and digits`,
+    );
+    invariant(
+      !ids.has(definition.id),
+      `Duplicate migration id ${definition.id}`,
+    );
+    ids.add(definition.id);
+    migrations.set(`${definition.id}-${definition.name}`, definition);
+  }
+
+  let listSync = () => [...migrations.keys()].sort();
+  let loadSync = (migration: string): SourceMigration => {
+    let definition = migrations.get(migration);
+    if (!definition) throw new Error(`Migration ${migration} not found`);
+
+    let { up, down, settings } = definition;
+    return {
+      up,
+      down,
+      upFile: path.join(migration, typeof up === "string" ? "+.sql" : "up"),
+      downFile: path.join(
+        migration,
+        typeof down === "string" ? "-.sql" : "down",
+      ),
+      settings,
+    };
+  };
+
+  return {
+    list: async () => listSync(),
+    load: async migration => loadSync(migration),
+    listSync,
+    loadSync,
+  };
+}
+
+/**
+ * Serve migrations from a bundler's glob import, like Vite's
+ * `import.meta.glob`, keyed by paths ending in `<id>-<name>/+.sql`, `-.sql`
+ * or `migration.{ts,js}`. Values are SQL text, modules, or functions loading
+ * either.
+ */
+export function globSource(files: GlobFiles): MigrationSource {
+  let migrations = new Map<string, Map<string, GlobFiles[string]>>();
+  for (let [key, value] of Object.entries(files)) {
+    let [migration, file] = key.split(/[\\/]/).slice(-2);
+    // skip hidden directories like the archive of squashed migrations
+    if (!migration || /(^|[\\/])\.[^\\/.]/.test(key)) continue;
+    if (file !== "+.sql" && file !== "-.sql" && !MODULE_FILES.includes(file)) {
+      continue;
+    }
+    if (!migrations.has(migration)) migrations.set(migration, new Map());
+    migrations.get(migration)!.set(file, value);
+  }
+
+  let listSync = () => [...migrations.keys()].sort();
+  let entriesOf = (migration: string) => {
+    let entries = migrations.get(migration);
+    if (!entries) throw new Error(`Migration ${migration} not found`);
+    return entries;
+  };
+
+  return {
+    list: async () => listSync(),
+    listSync,
+
+    async load(migration) {
+      let values = new Map<string, GlobValue>();
+      for (let [file, value] of entriesOf(migration)) {
+        values.set(file, typeof value === "function" ? await value() : value);
+      }
+      return globMigration(migration, values);
+    },
+
+    loadSync(migration) {
+      let values = new Map<string, GlobValue>();
+      for (let [file, value] of entriesOf(migration)) {
+        if (typeof value === "function") {
+          throw new Error(
+            `${path.join(migration, file)} is imported lazily, which can't be loaded synchronously`,
+          );
+        }
+        values.set(file, value);
+      }
+      return globMigration(migration, values);
+    },
+  };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+function migrationDirectories(entries: fsSync.Dirent[]) {
+  return entries
+    .filter(entry => entry.isDirectory() && !entry.name.startsWith("."))
+    .map(entry => entry.name)
+    .sort();
+}
+
+/**
+ * The migration's module file, if it's a module rather than SQL files
+ */
+function findModuleFile(migration: string, files: string[]) {
+  let moduleFile = MODULE_FILES.find(f => files.includes(f));
+  if (moduleFile && (files.includes("+.sql") || files.includes("-.sql"))) {
+    throw new Error(
+      `Migration ${migration} has both SQL files and a ${moduleFile}`,
+    );
+  }
+  return moduleFile;
+}
+
+function globMigration(
+  migration: string,
+  values: Map<string, GlobValue>,
+): SourceMigration {
+  let moduleFile = findModuleFile(migration, [...values.keys()]);
+  if (!moduleFile) {
+    let up = values.get("+.sql");
+    let down = values.get("-.sql");
+    invariant(
+      typeof up === "string" && typeof down === "string",
+      `Migration ${migration} needs +.sql and -.sql as text`,
+    );
+    return {
+      up,
+      down,
+      upFile: path.join(migration, "+.sql"),
+      downFile: path.join(migration, "-.sql"),
+    };
+  }
+
+  let file = path.join(migration, moduleFile);
+  let mod = values.get(moduleFile);
+  invariant(mod && typeof mod === "object", `${file} must be a module`);
+  return moduleMigration(mod, file);
+}
+
+function moduleMigration(
+  mod: Partial<MigrationModule>,
+  file: string,
+  source?: string,
+): SourceMigration {
+  invariant(
+    typeof mod.up === "function" && typeof mod.down === "function",
+    `${file} must export \`up\` and \`down\` functions`,
+  );
+  return {
+    up: mod.up,
+    down: mod.down,
+    upFile: file,
+    downFile: file,
+    checksum: source,
+    settings: mod.settings,
+  };
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert";
+import { test, describe } from "node:test";
+import Database from "better-sqlite3";
+import { execStatements, splitStatements, StatementError } from "./sql.ts";
+
+describe("splitStatements", () => {
+  test("splits on semicolons with line numbers", () => {
+    let sql = `
+      CREATE TABLE users (id INTEGER);
+
+      CREATE TABLE posts (id INTEGER);
+      INSERT INTO users VALUES (1)
+    `;
+
+    assert.deepEqual(splitStatements(sql), [
+      { sql: "CREATE TABLE users (id INTEGER)", line: 2 },
+      { sql: "CREATE TABLE posts (id INTEGER)", line: 4 },
+      { sql: "INSERT INTO users VALUES (1)", line: 5 },
+    ]);
+  });
+
+  test("ignores semicolons in strings and comments", () => {
+    let sql = [
+      "-- first; statement",
+      "INSERT INTO users VALUES ('a;b', \"c;d\", 'it''s;');",
+      "/* multi",
+      "   line; comment */",
+      "SELECT [weird;name] FROM users;",
+    ].join("\n");
+
+    assert.deepEqual(splitStatements(sql), [
+      {
+        sql: "INSERT INTO users VALUES ('a;b', \"c;d\", 'it''s;')",
+        line: 2,
+      },
+      { sql: "SELECT [weird;name] FROM users", line: 5 },
+    ]);
+  });
+
+  test("keeps trigger bodies and case expressions together", () => {
+    let sql = `
+      CREATE TEMP TRIGGER users_touch AFTER UPDATE ON users
+      BEGIN
+        UPDATE users SET name = CASE WHEN new.name IS NULL THEN 'x' ELSE new.name END;
+        SELECT 1;
+      END;
+      BEGIN TRANSACTION;
+      SELECT 2;
+      END;
+    `;
+
+    let statements = splitStatements(sql);
+    assert.deepEqual(
+      statements.map(s => s.line),
+      [2, 7, 8, 9],
+    );
+    assert.match(statements[0].sql, /SELECT 1;\s+END$/);
+  });
+
+  test("comment-only scripts have no statements", () => {
+    assert.deepEqual(splitStatements("-- Down migration for users\n"), []);
+  });
+});
+
+describe("execStatements", () => {
+  test("runs every statement", () => {
+    let db = new Database(":memory:");
+    execStatements(
+      db,
+      "CREATE TABLE users (id INTEGER); INSERT INTO users VALUES (1);",
+    );
+    assert.deepEqual(db.prepare("SELECT id FROM users").all(), [{ id: 1 }]);
+  });
+
+  test("reports the failing statement", () => {
+    let db = new Database(":memory:");
+    assert.throws(
+      () =>
+        execStatements(
+          db,
+          "CREATE TABLE users (id INTEGER);\n\nINSERT INTO users VALUES (1,);",
+        ),
+      (error: unknown) => {
+        assert.ok(error instanceof StatementError);
+        assert.equal(error.statement, "INSERT INTO users VALUES (1,)");
+        assert.equal(error.line, 3);
+        assert.match(error.message, /syntax error/);
+        return true;
+      },
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { type Database } from "better-sqlite3";
+
+export type Statement = {
+  sql: string;
+  /** 1-based line the statement starts on */
+  line: number;
+};
+
+/**
+ * Thrown by `execStatements` with the statement SQLite rejected
+ */
+export class StatementError extends Error {
+  statement: string;
+  line: number;
+
+  constructor(cause: unknown, statement: Statement) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause });
+    this.name = "StatementError";
+    this.statement = statement.sql;
+    this.line = statement.line;
+  }
+}
+
+/**
+ * Split a SQL script into statements, keeping quoted strings, comments and
+ * trigger bodies intact. Comment-only scripts have no statements.
+ */
+export function splitStatements(sql: string): Statement[] {
+  let statements: Statement[] = [];
+  let line = 1;
+  let start = -1;
+  let startLine = 1;
+  let words: string[] = [];
+  // BEGIN ... END in triggers and CASE ... END can contain semicolons
+  let depth = 0;
+  let i = 0;
+
+  let end = (index: number) => {
+    if (start !== -1) {
+      statements.push({ sql: sql.slice(start, index).trim(), line: startLine });
+    }
+    start = -1;
+    words = [];
+    depth = 0;
+  };
+
+  while (i < sql.length) {
+    let ch = sql[i];
+
+    if (ch === "\n") {
+      line++;
+      i++;
+    } else if (ch === "-" && sql[i + 1] === "-") {
+      while (i < sql.length && sql[i] !== "\n") i++;
+    } else if (ch === "/" && sql[i + 1] === "*") {
+      let close = sql.indexOf("*/", i + 2);
+      let stop = close === -1 ? sql.length : close + 2;
+      line += countLines(sql, i, stop);
+      i = stop;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === ";") {
+      if (depth === 0) {
+        end(i);
+      }
+      i++;
+    } else {
+      if (start === -1) {
+        start = i;
+        startLine = line;
+      }
+
+      if (ch === "'" || ch === '"' || ch === "`" || ch === "[") {
+        let quote = ch === "[" ? "]" : ch;
+        let stop = i + 1;
+        while (stop < sql.length) {
+          if (sql[stop] === quote) {
+            // doubled quotes are escapes
+            if (quote !== "]" && sql[stop + 1] === quote) {
+              stop += 2;
+              continue;
+            }
+            break;
+          }
+          stop++;
+        }
+        line += countLines(sql, i, stop);
+        i = stop + 1;
+      } else if (/\w/.test(ch)) {
+        let stop = i;
+        while (stop < sql.length && /\w/.test(sql[stop])) stop++;
+        let word = sql.slice(i, stop).toUpperCase();
+        words.push(word);
+
+        if (word === "CASE" || (word === "BEGIN" && isTrigger(words))) {
+          depth++;
+        } else if (word === "END" && depth > 0) {
+          depth--;
+        }
+        i = stop;
+      } else {
+        i++;
+      }
+    }
+  }
+
+  end(sql.length);
+  return statements;
+}
+
+/**
+ * Run each statement in `sql`, throwing a `StatementError` for the statement
+ * that fails.
+ */
+export function execStatements(db: Database, sql: string) {
+  for (let statement of splitStatements(sql)) {
+    try {
+      db.exec(statement.sql);
+    } catch (error) {
+      throw new StatementError(error, statement);
+    }
+  }
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+function isTrigger(words: string[]) {
+  if (words[0] !== "CREATE") return false;
+  let next = words[1] === "TEMP" || words[1] === "TEMPORARY" ? 2 : 1;
+  return words[next] === "TRIGGER";
+}
+
+function countLines(sql: string, from: number, to: number) {
+  let count = 0;
+  for (let i = from; i < to; i++) {
+    if (sql[i] === "\n") count++;
+  }
+  return count;
+}
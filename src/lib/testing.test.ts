@@ -0,0 +1,74 @@
+import assert from "node:assert";
+import { afterEach, test, describe } from "node:test";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type Database from "better-sqlite3";
+import { clearTestDatabases, createTestDatabase } from "./testing.ts";
+
+const TEST_DIR = await fs.mkdtemp("test");
+
+afterEach(async () => {
+  clearTestDatabases();
+  await fs.rm(TEST_DIR, { recursive: true, force: true });
+});
+
+async function writeMigration(name: string, up: string, down: string) {
+  await fs.mkdir(path.join(TEST_DIR, name), { recursive: true });
+  await fs.writeFile(path.join(TEST_DIR, name, "+.sql"), up);
+  await fs.writeFile(path.join(TEST_DIR, name, "-.sql"), down);
+}
+
+function tables(db: Database.Database) {
+  return db
+    .prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT GLOB '_*' ORDER BY name",
+    )
+    .pluck()
+    .all();
+}
+
+describe("createTestDatabase", () => {
+  test("returns a fresh copy of the migrated database", async () => {
+    await writeMigration(
+      "01-add-users",
+      "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)",
+      "DROP TABLE users",
+    );
+
+    let first = await createTestDatabase({ dir: TEST_DIR });
+    first.prepare("INSERT INTO users (name) VALUES ('ada')").run();
+
+    // the image is cached, so new migrations don't show up
+    await writeMigration(
+      "02-add-posts",
+      "CREATE TABLE posts (id INTEGER)",
+      "DROP TABLE posts",
+    );
+    let second = await createTestDatabase({ dir: TEST_DIR });
+    assert.deepEqual(tables(second), ["users"]);
+    assert.equal(second.prepare("SELECT count(*) FROM users").pluck().get(), 0);
+    assert.deepEqual(
+      second.prepare("SELECT id FROM _migralite").pluck().all(),
+      ["01"],
+    );
+
+    clearTestDatabases();
+    assert.deepEqual(tables(await createTestDatabase({ dir: TEST_DIR })), [
+      "posts",
+      "users",
+    ]);
+  });
+
+  test("migrates up to a specific migration", async () => {
+    await writeMigration("01-add-users", "CREATE TABLE users (id INTEGER)", "");
+    await writeMigration("02-add-posts", "CREATE TABLE posts (id INTEGER)", "");
+
+    let db = await createTestDatabase({ dir: TEST_DIR, to: "01" });
+    assert.deepEqual(tables(db), ["users"]);
+
+    await assert.rejects(
+      createTestDatabase({ dir: TEST_DIR, to: "03" }),
+      /Migration 03 not found/,
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import path from "path";
+import Sqlite, { type Database } from "better-sqlite3";
+import { Migrator } from "./migrate.ts";
+
+export type TestDatabaseOptions = {
+  /** Directory of the migrations to apply */
+  dir: string;
+  /** Only migrate up to the migration matching this id or name prefix */
+  to?: string;
+  /** Table applied migrations are recorded in, defaults to `_migralite` */
+  table?: string;
+};
+
+// migrated database images, by options, for the life of the process
+let images = new Map<string, Promise<Buffer>>();
+
+/**
+ * Create an in-memory database with the migrations applied. The first call
+ * for a set of options runs the migrations, later calls copy the migrated
+ * image, so every test can cheaply get a database of its own. Restart the
+ * process, or call `clearTestDatabases()`, after changing migrations.
+ */
+export async function createTestDatabase(
+  options: TestDatabaseOptions,
+): Promise<Database> {
+  let key = JSON.stringify([
+    path.resolve(options.dir),
+    options.to ?? null,
+    options.table ?? null,
+  ]);
+
+  let image = images.get(key);
+  if (!image) {
+    image = migrateImage(options);
+    images.set(key, image);
+    // let the next call try again instead of caching the failure
+    image.catch(() => images.delete(key));
+  }
+
+  return new Sqlite(await image);
+}
+
+/**
+ * Forget the migrated images so the next `createTestDatabase` migrates again
+ */
+export function clearTestDatabases() {
+  images.clear();
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+async function migrateImage(options: TestDatabaseOptions) {
+  let db = new Sqlite(":memory:");
+  try {
+    let migrator = new Migrator(db, options.dir, {
+      dry: false,
+      table: options.table,
+    });
+    await migrator.up(options.to);
+    return db.serialize();
+  } finally {
+    db.close();
+  }
+}
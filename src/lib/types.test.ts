@@ -0,0 +1,71 @@
+import assert from "node:assert";
+import { test, describe } from "node:test";
+import Database from "better-sqlite3";
+import { generateTypes } from "./types.ts";
+
+describe("generateTypes", () => {
+  test("generates row types for tables and views", () => {
+    let db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        email VARCHAR(255) NOT NULL,
+        score REAL,
+        avatar BLOB,
+        created_at DATETIME NOT NULL,
+        active BOOLEAN NOT NULL DEFAULT 1,
+        extra
+      );
+      CREATE TABLE user_roles (
+        user_id INTEGER NOT NULL REFERENCES users (id),
+        "role name" TEXT NOT NULL,
+        PRIMARY KEY (user_id, "role name")
+      );
+      CREATE VIEW emails AS SELECT email FROM users;
+      CREATE TABLE _migralite (id TEXT);
+    `);
+
+    assert.equal(
+      generateTypes(db, ["_migralite"]),
+      `// Generated by migralite, do not edit by hand
+
+export type UserRolesRow = {
+  /** References users.id */
+  user_id: number;
+  "role name": string;
+};
+
+export type UsersRow = {
+  id: number;
+  email: string;
+  score: number | null;
+  avatar: Buffer | null;
+  created_at: string;
+  active: number;
+  extra: unknown;
+};
+
+export type EmailsRow = {
+  email: string | null;
+};
+
+export type Tables = {
+  user_roles: UserRolesRow;
+  users: UsersRow;
+};
+
+export type Views = {
+  emails: EmailsRow;
+};
+`,
+    );
+  });
+
+  test("generates an empty Tables type for an empty database", () => {
+    let db = new Database(":memory:");
+    assert.equal(
+      generateTypes(db),
+      "// Generated by migralite, do not edit by hand\n\nexport type Tables = {\n};\n",
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { type Database } from "better-sqlite3";
+import { readSchema } from "./schema.ts";
+
+type ColumnInfo = {
+  name: string;
+  type: string;
+  notnull: number;
+  pk: number;
+};
+
+type ForeignKeyInfo = {
+  table: string;
+  from: string;
+  to: string | null;
+};
+
+/**
+ * Generate a TypeScript module with a row type for every table and view,
+ * like `UsersRow` for `users`, and `Tables` and `Views` types mapping names
+ * to row types.
+ *
+ * @param ignore Tables to leave out
+ * @param schema Attached database to read, defaults to `main`
+ */
+export function generateTypes(
+  db: Database,
+  ignore: string[] = [],
+  schema = "main",
+) {
+  let objects = readSchema(db, ignore, schema).filter(
+    object => object.type === "table" || object.type === "view",
+  );
+
+  let blocks = ["// Generated by migralite, do not edit by hand\n"];
+  let tables: string[] = [];
+  let views: string[] = [];
+
+  for (let object of objects) {
+    let columns = db.pragma(
+      `${schema}.table_info(${quoteName(object.name)})`,
+    ) as ColumnInfo[];
+    let foreignKeys =
+      object.type === "table"
+        ? (db.pragma(
+            `${schema}.foreign_key_list(${quoteName(object.name)})`,
+          ) as ForeignKeyInfo[])
+        : [];
+    let primaryKeys = columns.filter(column => column.pk > 0);
+
+    let fields = columns.map(column => {
+      // an INTEGER PRIMARY KEY is the rowid, which is never null
+      let rowid =
+        primaryKeys.length === 1 &&
+        column.pk === 1 &&
+        column.type.toUpperCase() === "INTEGER";
+      let type = columnType(column.type);
+      if (!column.notnull && !rowid && type !== "unknown") {
+        type += " | null";
+      }
+
+      let reference = foreignKeys.find(key => key.from === column.name);
+      let doc = reference
+        ? `  /** References ${reference.table}${reference.to ? `.${reference.to}` : ""} */\n`
+        : "";
+      return `${doc}  ${propertyName(column.name)}: ${type};\n`;
+    });
+
+    let typeName = rowTypeName(object.name);
+    blocks.push(`export type ${typeName} = {\n${fields.join("")}};\n`);
+    (object.type === "view" ? views : tables).push(
+      `  ${propertyName(object.name)}: ${typeName};\n`,
+    );
+  }
+
+  blocks.push(`export type Tables = {\n${tables.join("")}};\n`);
+  if (views.length > 0) {
+    blocks.push(`export type Views = {\n${views.join("")}};\n`);
+  }
+  return blocks.join("\n");
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+// https://www.sqlite.org/datatype3.html#determination_of_column_affinity
+function columnType(declared: string) {
+  let type = declared.toUpperCase();
+  if (type.includes("INT")) return "number";
+  if (/CHAR|CLOB|TEXT/.test(type)) return "string";
+  if (type.includes("BLOB")) return "Buffer";
+  // no declared type stores values as they are
+  if (!type) return "unknown";
+  if (/REAL|FLOA|DOUB/.test(type)) return "number";
+  // NUMERIC affinity, dates are usually stored as ISO strings
+  if (/DATE|TIME/.test(type)) return "string";
+  return "number";
+}
+
+function rowTypeName(name: string) {
+  let pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join("");
+  return `${/^\d/.test(pascal) ? "_" : ""}${pascal}Row`;
+}
+
+function propertyName(name: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function quoteName(name: string) {
+  return `"${name.replace(/"/g, '""')}"`;
+}
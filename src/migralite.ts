@@ -1 +1,55 @@
-export { Migrator, MigratorOptions } from "./lib/migrate.js";
+export {
+  Migrator,
+  MigratorSync,
+  MigrationError,
+  MigratorOptions,
+  MigratorSyncOptions,
+  MigrationEntry,
+  MigrationDrift,
+  MigrationStatus,
+  RoundTripResult,
+  DryRunResult,
+  MigrationDirection,
+  RollbackTarget,
+  ReapplyResult,
+  MigrationEvent,
+  MigratorEvents,
+  MigratorHooks,
+  MigrationModule,
+  MigrationSettings,
+} from "./lib/migrate.js";
+export {
+  readSchema,
+  formatSchema,
+  diffSchema,
+  SchemaObject,
+  SchemaDiff,
+} from "./lib/schema.js";
+export { generateMigration, GeneratedMigration } from "./lib/generate.js";
+export { MigrationPlan } from "./lib/plan.js";
+export {
+  directorySource,
+  arraySource,
+  globSource,
+  MigrationSource,
+  SourceMigration,
+  MigrationDefinition,
+  MigrationStep,
+  GlobFiles,
+} from "./lib/source.js";
+export {
+  lintMigration,
+  LintRule,
+  LintSeverity,
+  LintRules,
+  LintIssue,
+} from "./lib/lint.js";
+export { generateTypes } from "./lib/types.js";
+export { Seeder, SeederOptions, SeedModule, SeedEntry } from "./lib/seed.js";
+export {
+  createTestDatabase,
+  clearTestDatabases,
+  TestDatabaseOptions,
+} from "./lib/testing.js";
+export { BackupEntry } from "./lib/backup.js";
+export { MigrationLock } from "./lib/lock.js";